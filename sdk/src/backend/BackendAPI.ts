@@ -1,4 +1,8 @@
-import type { EncryptedMailPackage, MailRecord } from '../types/index.js';
+import type { EncryptedMailPackage } from '../types/index.js';
+import type { StoredMail } from '../service/types.js';
+import type { MessagingKeyAnnouncement } from '../keys/messaging-keys.js';
+import type { PinReport } from '../storage/StorageProvider.js';
+import type { RelayAuthorization } from './relay-authorization.js';
 
 export interface BackendAPIOptions {
   baseUrl: string;
@@ -7,9 +11,10 @@ export interface BackendAPIOptions {
 
 export interface BackendSendMailRequest {
   proof: string;
-  contentCID: string;
+  cid: string; // storage CID; the service derives the on-chain contentCID from it
   senderEmail: string;
   recipientEmail: string;
+  authorization?: RelayAuthorization;
 }
 
 export interface BackendSendMailResponse {
@@ -17,6 +22,7 @@ export interface BackendSendMailResponse {
   mailId: string;
   txHash: string;
   timestamp: number;
+  pins?: PinReport[];
 }
 
 export class BackendAPI {
@@ -26,18 +32,37 @@ export class BackendAPI {
     return this.post('/api/send-mail', payload);
   }
 
-  async getInbox(email: string): Promise<MailRecord[]> {
+  async getInbox(email: string): Promise<StoredMail[]> {
     const response = await this.get(`/api/inbox/${encodeURIComponent(email)}`);
-    return response.inbox as MailRecord[];
+    return response.inbox as StoredMail[];
   }
 
-  async getSentbox(email: string): Promise<MailRecord[]> {
+  // indexedTo is the last block whose mail the backend has stored
+  async getInboxSince(email: string, fromBlock: number): Promise<{ inbox: StoredMail[]; indexedTo: number }> {
+    return this.get(`/api/inbox/${encodeURIComponent(email)}?fromBlock=${fromBlock}`);
+  }
+
+  async getSentbox(email: string): Promise<StoredMail[]> {
     const response = await this.get(`/api/sentbox/${encodeURIComponent(email)}`);
-    return response.sentbox as MailRecord[];
+    return response.sentbox as StoredMail[];
+  }
+
+  async getMail(mailId: string, options: { includePackage?: boolean } = {}): Promise<{ mail: StoredMail; package?: EncryptedMailPackage }> {
+    return this.get(`/api/mail/${mailId}${options.includePackage ? '?include=package' : ''}`);
+  }
+
+  async getPackage(cid: string): Promise<EncryptedMailPackage> {
+    const response = await this.get(`/api/packages/${encodeURIComponent(cid)}`);
+    return response.package as EncryptedMailPackage;
+  }
+
+  async publishMessagingKey(announcement: MessagingKeyAnnouncement): Promise<void> {
+    await this.post('/api/keys', announcement);
   }
 
-  async getMail(mailId: string): Promise<{ mail: MailRecord; package?: EncryptedMailPackage }> {
-    return this.get(`/api/mail/${mailId}`);
+  async getMessagingKeys(address: string): Promise<MessagingKeyAnnouncement[]> {
+    const response = await this.get(`/api/keys/${encodeURIComponent(address)}`);
+    return response.keys as MessagingKeyAnnouncement[];
   }
 
   private async get(path: string): Promise<any> {
@@ -0,0 +1,91 @@
+import { keccak256, verifyTypedData, type Signer, type TypedDataDomain, type TypedDataField } from 'ethers';
+
+// Signed by the sender so a relay can pay for delivery but cannot change what is delivered, or to whom.
+// One authorization covers every recipient of a mail; the relay submits one transaction per recipient.
+export const RELAY_AUTHORIZATION_TYPES: Record<string, TypedDataField[]> = {
+  RelayMail: [
+    { name: 'senderEmail', type: 'string' },
+    { name: 'recipientEmails', type: 'string[]' },
+    { name: 'contentCID', type: 'bytes32' },
+    { name: 'proofHash', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+export const DEFAULT_RELAY_AUTHORIZATION_TTL_SECONDS = 15 * 60;
+
+export interface RelayAuthorization {
+  recipientEmails: string[];
+  deadline: number; // unix seconds
+  signer: string;
+  signature: string;
+}
+
+export interface RelayMailRequest {
+  proof: string;
+  contentCID: string; // bytes32
+  senderEmail: string;
+}
+
+// Bound to the chain and mailer contract so an authorization cannot be replayed against another deployment.
+export function relayAuthorizationDomain(chainId: bigint | number, mailerAddress: string): TypedDataDomain {
+  return { name: 'BaseMailer Relay', version: '1', chainId, verifyingContract: mailerAddress };
+}
+
+export async function signRelayAuthorization(
+  signer: Signer,
+  domain: TypedDataDomain,
+  request: RelayMailRequest,
+  recipientEmails: string[],
+  ttlSeconds = DEFAULT_RELAY_AUTHORIZATION_TTL_SECONDS
+): Promise<RelayAuthorization> {
+  const deadline = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = await signer.signTypedData(domain, RELAY_AUTHORIZATION_TYPES, toTypedValue(request, recipientEmails, deadline));
+  return { recipientEmails, deadline, signer: await signer.getAddress(), signature };
+}
+
+// Returns the reason the authorization does not cover this delivery, or undefined when it does.
+export function checkRelayAuthorization(
+  authorization: RelayAuthorization,
+  domain: TypedDataDomain,
+  request: RelayMailRequest,
+  recipientEmail: string,
+  expectedSigner: string
+): string | undefined {
+  if (!Array.isArray(authorization?.recipientEmails) || !authorization.signature) {
+    return 'malformed authorization';
+  }
+  if (authorization.deadline < Math.floor(Date.now() / 1000)) {
+    return 'authorization expired';
+  }
+  if (!authorization.recipientEmails.includes(recipientEmail)) {
+    return `recipient ${recipientEmail} is not authorized`;
+  }
+
+  let recovered: string;
+  try {
+    recovered = verifyTypedData(
+      domain,
+      RELAY_AUTHORIZATION_TYPES,
+      toTypedValue(request, authorization.recipientEmails, authorization.deadline),
+      authorization.signature
+    );
+  } catch {
+    return 'invalid signature';
+  }
+  // a changed proof, CID or sender recovers some other address
+  if (recovered.toLowerCase() !== expectedSigner.toLowerCase()) {
+    return 'not signed by the sender';
+  }
+  return undefined;
+}
+
+function toTypedValue(request: RelayMailRequest, recipientEmails: string[], deadline: number): Record<string, unknown> {
+  return {
+    senderEmail: request.senderEmail,
+    recipientEmails,
+    contentCID: request.contentCID,
+    proofHash: keccak256(request.proof),
+    deadline: BigInt(deadline)
+  };
+}
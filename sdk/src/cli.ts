@@ -3,8 +3,12 @@ import { readFile, writeFile, access } from 'fs/promises';
 import path from 'path';
 import process from 'process';
 import readline from 'readline';
+import { Writable } from 'stream';
 import { EmailService } from './service/EmailService.js';
 import type { EmailServiceConfig } from './service/types.js';
+import { DEFAULT_KEYSTORE_DIRECTORY, FileKeystore } from './keys/Keystore.js';
+import { checkCircuit, createCircuitManifest, findCircuitManifests } from './zkproof/circuit-manifest.js';
+import { EMAIL_OWNERSHIP_PUBLIC_SIGNALS } from './zkproof/email-ownership.js';
 
 const DEFAULT_CONFIG = 'basemailer.service.config.json';
 
@@ -73,6 +77,12 @@ async function main(): Promise<void> {
         printHelp();
       }
       break;
+    case 'keys':
+      await handleKeys(subcommand, rest);
+      break;
+    case 'circuits':
+      await handleCircuits(subcommand, rest);
+      break;
     case 'interactive':
     case '-i':
     case '--interactive':
@@ -190,6 +200,7 @@ async function interactiveInit(cli: CliInterface): Promise<void> {
     signerPrivateKey: '0xYOUR_PRIVATE_KEY',
     port: parseInt(port) || 3000,
     verificationKeyPath: './circuits/email_ownership_verification_key.json',
+    persistence: { driver: 'jsonl', path: './data' },
     ipfs: ipfsConfig || {
       endpoint: 'https://ipfs.infura.io:5001',
       pin: true,
@@ -247,13 +258,15 @@ async function interactiveAdvancedConfig(cli: CliInterface): Promise<void> {
       console.log(colorize('\n🔐 Encryption Configuration:', 'blue'));
       console.log('- AES-256-GCM encryption is used by default');
       console.log('- ECIES for public key encryption');
+      console.log('- X25519 + XChaCha20-Poly1305 available via the x25519-xchacha20poly1305 suite');
       console.log('- No additional configuration needed');
       break;
     case '2':
       console.log(colorize('\n📡 IPFS Pinning Services:', 'blue'));
-      console.log('- Pinata: Configure JWT token in config');
+      console.log('- Any IPFS Pinning Service API provider (Pinata, Filebase, web3.storage, ...)');
+      console.log('- Add entries to ipfs.pinningServices: { "endpoint": "...", "accessToken": "..." }');
+      console.log('- Several services can be listed; a pin succeeds when any of them accepts it');
       console.log('- Infura IPFS: Set project credentials');
-      console.log('- Custom pinning service: Configure endpoint');
       break;
     case '3':
       console.log(colorize('\n⛓️  Blockchain Settings:', 'blue'));
@@ -285,6 +298,7 @@ async function handleInit(): Promise<void> {
     signerPrivateKey: '0xYOUR_PRIVATE_KEY',
     port: 3000,
     verificationKeyPath: './circuits/email_ownership_verification_key.json',
+    persistence: { driver: 'jsonl', path: './data' },
     ipfs: {
       endpoint: 'https://ipfs.infura.io:5001',
       projectId: 'your_project_id',
@@ -352,6 +366,136 @@ async function handleServiceStatus(): Promise<void> {
   }
 }
 
+function getOption(args: string[], name: string): string | undefined {
+  const match = args.find((arg) => arg.startsWith(`--${name}=`));
+  return match ? match.slice(name.length + 3) : undefined;
+}
+
+function promptHidden(query: string): Promise<string> {
+  process.stdout.write(query);
+  // readline echoes keystrokes to its output, so it is given one that discards them
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  return new Promise((resolve) => {
+    rl.question('', (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+async function readPassword(confirm: boolean): Promise<string> {
+  const fromEnv = process.env.BASEMAILER_KEYSTORE_PASSWORD;
+  if (fromEnv) return fromEnv;
+
+  const password = await promptHidden('Keystore password: ');
+  if (!password) {
+    throw new Error('Password must not be empty');
+  }
+  if (confirm && (await promptHidden('Repeat password: ')) !== password) {
+    throw new Error('Passwords do not match');
+  }
+  return password;
+}
+
+async function handleKeys(subcommand: string | undefined, args: string[]): Promise<void> {
+  const directory = path.resolve(process.cwd(), getOption(args, 'keystore') ?? DEFAULT_KEYSTORE_DIRECTORY);
+  const keystore = new FileKeystore(directory);
+  const label = getOption(args, 'label');
+  const target = args.find((arg) => !arg.startsWith('--'));
+
+  switch (subcommand) {
+    case 'generate': {
+      const entry = await keystore.generate(await readPassword(true), label);
+      console.log(colorize(`✅ Generated messaging key ${entry.label ?? entry.id}`, 'green'));
+      console.log(`   id:         ${entry.id}`);
+      console.log(`   public key: ${entry.publicKey}`);
+      break;
+    }
+    case 'import': {
+      const privateKey = await promptHidden('Private key (hex): ');
+      const entry = await keystore.import(privateKey.trim(), await readPassword(true), label);
+      console.log(colorize(`✅ Imported messaging key ${entry.label ?? entry.id}`, 'green'));
+      console.log(`   public key: ${entry.publicKey}`);
+      break;
+    }
+    case 'export': {
+      if (!target) {
+        console.log(colorize('❌ Usage: basemailer-sdk keys export <id|label>', 'red'));
+        process.exitCode = 1;
+        return;
+      }
+      const privateKey = await keystore.unlock(target, await readPassword(false));
+      console.log(colorize('⚠️  Anyone holding this key can read your mail.', 'yellow'));
+      console.log(privateKey);
+      break;
+    }
+    case 'list': {
+      const entries = await keystore.list();
+      if (entries.length === 0) {
+        console.log(colorize(`No keys in ${directory}`, 'yellow'));
+        return;
+      }
+      console.log(colorize(`🔑 Keys in ${directory}`, 'bright'));
+      entries.forEach((entry) => {
+        console.log(`  ${colorize(entry.label ?? '(no label)', 'cyan')}  ${entry.id}  ${entry.publicKey}`);
+      });
+      break;
+    }
+    default:
+      printHelp();
+  }
+}
+
+async function handleCircuits(subcommand: string | undefined, args: string[]): Promise<void> {
+  const directory = path.resolve(process.cwd(), args.find((arg) => !arg.startsWith('--')) ?? 'circuits');
+
+  switch (subcommand) {
+    case 'check': {
+      const manifests = await findCircuitManifests(directory);
+      if (manifests.length === 0) {
+        console.log(colorize(`❌ No manifest.json or *.manifest.json in ${directory}`, 'red'));
+        process.exitCode = 1;
+        return;
+      }
+      for (const manifestPath of manifests) {
+        const result = await checkCircuit(manifestPath, EMAIL_OWNERSHIP_PUBLIC_SIGNALS.length);
+        const name = result.id ? `${result.id}@${result.version}` : path.basename(manifestPath);
+        if (result.problems.length === 0) {
+          console.log(colorize(`✅ ${name}`, 'green') + `  ${path.relative(process.cwd(), manifestPath)}`);
+          continue;
+        }
+        process.exitCode = 1;
+        console.log(colorize(`❌ ${name}`, 'red') + `  ${path.relative(process.cwd(), manifestPath)}`);
+        result.problems.forEach((problem) => console.log(`   ${problem}`));
+      }
+      break;
+    }
+    case 'manifest': {
+      const id = getOption(args, 'id');
+      const version = getOption(args, 'version');
+      const wasm = getOption(args, 'wasm');
+      const zkey = getOption(args, 'zkey');
+      const vkey = getOption(args, 'vkey');
+      if (!id || !version || !wasm || !zkey || !vkey) {
+        console.log(
+          colorize('❌ Usage: basemailer-sdk circuits manifest [dir] --id= --version= --wasm= --zkey= --vkey=', 'red')
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const manifest = await createCircuitManifest({ id, version, directory, wasm, zkey, vkey });
+      const target = path.join(directory, `${id}.manifest.json`);
+      await writeFile(target, `${JSON.stringify(manifest, null, 2)}\n`);
+      console.log(colorize(`✅ Wrote ${target} (${manifest.publicSignals} public signals)`, 'green'));
+      break;
+    }
+    default:
+      printHelp();
+  }
+}
+
 function printHelp(): void {
   console.log(colorize('\n🚀 BaseMailer SDK CLI', 'bright'));
   console.log('─'.repeat(25));
@@ -362,12 +506,24 @@ function printHelp(): void {
   console.log(colorize('  init', 'cyan') + '                    Create default service config');
   console.log(colorize('  service start', 'cyan') + '           Start the built-in email service');
   console.log(colorize('  service status', 'cyan') + '          Check service configuration');
+  console.log(colorize('  keys generate', 'cyan') + '           Generate a password-protected messaging key');
+  console.log(colorize('  keys import', 'cyan') + '             Import an existing messaging private key');
+  console.log(colorize('  keys export <id|label>', 'cyan') + '  Print a decrypted messaging private key');
+  console.log(colorize('  keys list', 'cyan') + '               List keys in the keystore');
+  console.log(colorize('  circuits check [dir]', 'cyan') + '    Verify circuit manifests and artifact checksums');
+  console.log(colorize('  circuits manifest [dir]', 'cyan') + ' Write a manifest for a circuit build');
   console.log(colorize('  interactive, -i', 'cyan') + '         Start interactive mode');
   console.log('\nOptions:');
   console.log('  --config=<path>           Specify config file path');
+  console.log('  --keystore=<dir>          Keystore directory (default ~/.basemailer/keystore)');
+  console.log('  --label=<name>            Label for a generated or imported key');
+  console.log('  --id, --version, --wasm, --zkey, --vkey');
+  console.log('                            Circuit id, version and artifact paths for circuits manifest');
   console.log('\nExamples:');
   console.log('  basemailer-sdk init');
   console.log('  basemailer-sdk service start --config=my-config.json');
+  console.log('  basemailer-sdk keys generate --label=work');
+  console.log('  basemailer-sdk circuits check ./circuits');
   console.log('  basemailer-sdk -i');
 }
 
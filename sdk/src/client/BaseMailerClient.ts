@@ -1,183 +1,549 @@
-import { Contract, JsonRpcProvider, Signer, keccak256, toUtf8Bytes } from 'ethers';
+import { Contract, JsonRpcProvider, Signer } from 'ethers';
 import type { BaseMailerClientConfig, RecipientResolutionResult } from '../types/config.js';
-import type { MailContent, MailRecord, SendMailParams } from '../types/mail.js';
+import type {
+  AttachmentMeta,
+  EncryptedMailPackage,
+  MailContent,
+  MailRecord,
+  SendMailAttachment,
+  SendMailParams,
+  VerifiedMailContent
+} from '../types/mail.js';
 import { BaseMailerRegistryABI, NameBasedMailerABI } from '../contracts/abi.js';
 import { EncryptionManager } from '../encryption/EncryptionManager.js';
+import { signMailContent } from '../encryption/mail-signature.js';
+import {
+  createMessagingKeyAnnouncement,
+  deriveMessagingKeyPair,
+  type MessagingKeyAnnouncement,
+  type MessagingKeyAnnouncementOptions,
+  type MessagingKeyPair
+} from '../keys/messaging-keys.js';
+import { KeyDirectory } from '../keys/KeyDirectory.js';
 import { IPFSClient } from '../storage/IPFSClient.js';
+import { createStorageProvider } from '../storage/provider-factory.js';
+import type { StorageProvider } from '../storage/StorageProvider.js';
+import { CachedStorageProvider } from '../storage/CachedStorageProvider.js';
 import { ProofGenerator } from '../zkproof/ProofGenerator.js';
+import { assertEmailOwnershipSignals, emailOwnershipInputs } from '../zkproof/email-ownership.js';
 import { BackendAPI } from '../backend/BackendAPI.js';
-import { cidToBytes32 } from '../utils/bytes.js';
+import { MailEventIndex, matchMailEvents } from './MailEventIndex.js';
+import {
+  MailSubscription,
+  type Mailbox,
+  type MailSubscriptionOptions,
+  type NewMailEvent,
+  type NewMailHandler
+} from './MailSubscription.js';
+import { relayAuthorizationDomain, signRelayAuthorization } from '../backend/relay-authorization.js';
+import { bytes32ToCid, cidToBytes32, toHex } from '../utils/bytes.js';
 import { InMemoryCidStore, type CidStore } from '../utils/cid-store.js';
 import { ConsoleLogger, type Logger } from '../utils/logger.js';
 
+export interface MailDelivery {
+  recipientEmail: string;
+  mailId: string;
+  txHash: string;
+  cid: string; // Bcc recipients each have their own package
+}
+
 export interface SendMailResponse {
   mailId: string;
-  cid: string;
+  cid: string; // the To/Cc package
   txHash: string;
+  deliveries: MailDelivery[];
 }
 
 export class BaseMailerClient {
-  private readonly provider: JsonRpcProvider;
-  private readonly signer: Signer;
-  private readonly registry: Contract;
-  private readonly mailer: Contract;
+  // Each capability is optional so read-only deployments need no keys; methods check for what they use.
+  private readonly provider?: JsonRpcProvider;
+  private readonly signer?: Signer;
+  private readonly registry?: Contract;
+  private readonly mailer?: Contract;
+  private readonly mailEvents?: MailEventIndex;
   private readonly encryption: EncryptionManager;
-  private readonly storage: IPFSClient;
-  private readonly proof: ProofGenerator;
+  private readonly storage?: StorageProvider;
+  private readonly proof?: ProofGenerator;
   private readonly backend?: BackendAPI;
   private readonly cidStore: CidStore;
+  private readonly keyDirectory?: KeyDirectory;
   private readonly recipientResolver?: BaseMailerClientConfig['recipientResolver'];
   private readonly logger: Logger;
+  private messagingKeys?: Promise<MessagingKeyPair>;
+  private unlockedKey?: string;
 
   constructor(private readonly config: BaseMailerClientConfig) {
     if (!config.registryAddress || !config.mailerAddress) {
       throw new Error('registryAddress and mailerAddress are required');
     }
 
-    if (!config.provider && !config.rpcUrl) {
-      throw new Error('Either provider or rpcUrl must be supplied');
-    }
-
-    if (!config.signer) {
-      throw new Error('Signer is required for BaseMailerClient');
+    if (!config.provider && !config.rpcUrl && !config.backend) {
+      throw new Error('Either provider, rpcUrl or backend must be supplied');
     }
 
-    this.provider = config.provider ?? new JsonRpcProvider(config.rpcUrl!);
+    this.provider = config.provider ?? (config.rpcUrl ? new JsonRpcProvider(config.rpcUrl) : undefined);
     this.signer = config.signer;
-    this.registry = new Contract(config.registryAddress, BaseMailerRegistryABI, this.signer);
-    this.mailer = new Contract(config.mailerAddress, NameBasedMailerABI, this.signer);
+    // without a provider the client reads mail through the backend only
+    if (this.provider) {
+      const runner = this.signer ?? this.provider;
+      this.registry = new Contract(config.registryAddress, BaseMailerRegistryABI, runner);
+      this.mailer = new Contract(config.mailerAddress, NameBasedMailerABI, runner);
+      this.mailEvents = new MailEventIndex(this.mailer, this.provider, {
+        fromBlock: config.eventStartBlock,
+        blockRange: config.logBlockRange
+      });
+    }
 
     this.encryption = config.encryption ?? new EncryptionManager();
-    this.storage = config.storage ?? new IPFSClient(config.ipfs);
-    if (!config.proof && !config.proofGenerator) {
-      throw new Error('Proof configuration or generator must be provided');
+    const storage =
+      config.storage ??
+      (config.storageProvider ? createStorageProvider(config.storageProvider) : config.ipfs ? new IPFSClient(config.ipfs) : undefined);
+    this.storage = storage && config.packageCache ? new CachedStorageProvider(storage, config.packageCache) : storage;
+    this.proof = config.proofGenerator ?? (config.proof ? new ProofGenerator(config.proof) : undefined);
+    if (config.submission === 'relay' && !config.backend) {
+      throw new Error('Relay submission requires a backend');
     }
-    this.proof = config.proofGenerator ?? new ProofGenerator(config.proof!);
     this.backend = config.backend;
     this.cidStore = config.cidStore ?? new InMemoryCidStore();
-    this.recipientResolver = config.recipientResolver;
+    this.keyDirectory = config.backend ? new KeyDirectory({ backend: config.backend }) : undefined;
+    this.recipientResolver = config.recipientResolver ?? this.keyDirectory?.resolver();
     this.logger = new ConsoleLogger('info');
   }
 
+  // the first block mailbox listings and syncs look at
+  get eventStartBlock(): number | undefined {
+    return this.config.eventStartBlock;
+  }
+
   async registerEmail(basename: string): Promise<string> {
-    const tx = await this.registry.registerEmail(basename);
+    this.need(this.signer, 'registerEmail', 'a signer');
+    const tx = await this.contracts('registerEmail').registry.registerEmail(basename);
     const receipt = await tx.wait();
     this.logger.info('Registered email', { basename, txHash: receipt?.hash ?? tx.hash });
     return `${basename}@basemailer.com`;
   }
 
   async isEmailRegistered(email: string): Promise<boolean> {
-    return this.registry.isEmailRegistered(email);
+    return this.contracts('isEmailRegistered').registry.isEmailRegistered(email);
   }
 
   async resolveOwner(email: string): Promise<string> {
-    return this.registry.resolveEmail(email);
+    return this.contracts('resolveOwner').registry.resolveEmail(email);
   }
 
   async sendMail(params: SendMailParams): Promise<SendMailResponse> {
     if (!params.from) throw new Error('from email is required');
-    const recipient = await this.resolveRecipient(params.to);
+    // checked before anything is encrypted or uploaded
+    const signer = this.need(this.signer, 'sendMail', 'a signer');
+    const prover = this.need(this.proof, 'sendMail', 'proof or proofGenerator configuration');
+    const storage = this.storageFor('sendMail');
+    this.contracts('sendMail');
+    const cc = params.cc ?? [];
+    const visibleEmails = Array.from(new Set([params.to, ...cc]));
+    const bccEmails = Array.from(new Set(params.bcc ?? [])).filter((email) => !visibleEmails.includes(email));
+    const [visible, hidden] = await Promise.all([
+      Promise.all(visibleEmails.map((email) => this.resolveRecipient(email))),
+      Promise.all(bccEmails.map((email) => this.resolveRecipient(email)))
+    ]);
+    const attachments = await this.uploadAttachments(params.attachments);
 
-    const content: MailContent = {
+    const draft: MailContent = {
       from: params.from,
       to: params.to,
+      cc: cc.length > 0 ? cc : undefined,
+      bcc: bccEmails.length > 0 ? bccEmails : undefined, // kept only in the sender's archive
       subject: params.subject,
       body: params.body,
-      attachments: params.attachments,
+      attachments,
       timestamp: Date.now()
     };
+    const content = this.config.signMail === false ? draft : await signMailContent(draft, signer);
+    const { bcc: _bcc, ...bccCopy } = content;
 
-    const encrypted = await this.encryption.encrypt(content, recipient.publicKey);
-    const cid = await this.storage.upload(encrypted);
-    const contentCID = cidToBytes32(cid);
-    await this.cidStore.set(contentCID, cid);
+    // Each Bcc recipient gets a package, CID, proof and content key of their own, so the To/Cc recipients cannot open
+    // the Bcc copies and tell whom they went to, nor count Bcc recipients from key slots. Attachments are uploaded
+    // once, under keys carried in the content.
+    const packages = [
+      { content, recipientEmails: visibleEmails, publicKeys: visible.map((recipient) => recipient.publicKey) },
+      ...bccEmails.map((email, index) => ({ content: bccCopy, recipientEmails: [email], publicKeys: [hidden[index].publicKey] }))
+    ];
+    const archivePublicKey = params.archivePublicKey ?? this.config.archivePublicKey;
+    const senderAddress = await this.resolveOwner(params.from);
 
-    const proofInputs = {
-      senderEmail: params.from,
-      recipientEmail: params.to,
-      contentHash: keccak256(toUtf8Bytes(JSON.stringify(encrypted)))
-    };
+    const deliveries: MailDelivery[] = [];
+    let cid = '';
+    for (const pkg of packages) {
+      const encrypted = await this.encryption.encrypt(pkg.content, pkg.publicKeys, { archivePublicKey });
+      const packageCid = await storage.upload(encrypted);
+      const contentCID = cidToBytes32(packageCid);
+      await this.cidStore.set(contentCID, packageCid);
+      cid ||= packageCid;
 
-    const proof = await this.proof.generateProof(proofInputs);
+      // The proof binds the sender to the package, so one proof covers every delivery of it.
+      const statement = { senderAddress, senderEmail: params.from, contentCID };
+      const proof = await prover.generateProof(emailOwnershipInputs(statement), {
+        signal: params.signal,
+        onProgress: params.onProofProgress
+      });
+      assertEmailOwnershipSignals(proof.publicSignals, statement);
+      // a proof the service or contract would reject still costs gas, so check it here first
+      if (prover.canVerify && !(await prover.verifyProof(proof.publicSignals, proof.proof))) {
+        throw new Error('Generated proof failed local verification; the mail was not sent');
+      }
 
-    const tx = await this.mailer.sendMail(proof.proof, contentCID, params.from, params.to);
-    const receipt = await tx.wait();
-    const mailId = this.extractMailIdFromReceipt(receipt?.logs); // fallback later
+      deliveries.push(
+        ...(this.config.submission === 'relay'
+          ? await this.relayDeliveries(proof.proof, packageCid, contentCID, params.from, pkg.recipientEmails)
+          : await this.submitDeliveries(proof.proof, packageCid, contentCID, params.from, pkg.recipientEmails))
+      );
+    }
 
     return {
-      mailId: mailId ?? '0',
+      mailId: deliveries[0].mailId,
       cid,
-      txHash: tx.hash
+      txHash: deliveries[0].txHash,
+      deliveries
     };
   }
 
   async getInbox(email: string): Promise<MailRecord[]> {
-    const records = await this.mailer.getInbox(email);
-    return this.normalizeMailRecords(records);
+    if (!this.mailer) {
+      return this.normalizeMailRecords(await this.backendOnly('getInbox').getInbox(email));
+    }
+    const { events, scannedTo } = await this.mailEvents!.inboxEvents(email);
+    // read at the block the scan reached, so a mail mined in between cannot show up without its event
+    const records = await this.mailer.getInbox(email, { blockTag: scannedTo });
+    return this.normalizeMailRecords(matchMailEvents(records.map(viewRecord), events, `inbox ${email}`));
+  }
+
+  // Inbox entries delivered at or after fromBlock, and the last block covered, for callers that keep a checkpoint.
+  async getInboxSince(email: string, fromBlock: number): Promise<{ records: MailRecord[]; syncedTo: number }> {
+    if (!this.mailer) {
+      const { inbox, indexedTo } = await this.backendOnly('getInboxSince').getInboxSince(email, fromBlock);
+      return { records: this.normalizeMailRecords(inbox), syncedTo: Math.max(fromBlock - 1, indexedTo) };
+    }
+    const { events, scannedTo } = await this.mailEvents!.inboxEventsSince(email, fromBlock);
+    // ethers batches these calls into one JSON-RPC request
+    const records = await Promise.all(
+      events.map(async (event) => ({
+        ...viewRecord(await this.mailer!.getMail(event.mailId)),
+        mailId: event.mailId,
+        txHash: event.txHash,
+        blockNumber: event.blockNumber
+      }))
+    );
+    return { records: this.normalizeMailRecords(records), syncedTo: scannedTo };
   }
 
   async getSentbox(email: string): Promise<MailRecord[]> {
-    const records = await this.mailer.getSentbox(email);
-    return this.normalizeMailRecords(records);
+    if (!this.mailer) {
+      return this.normalizeMailRecords(await this.backendOnly('getSentbox').getSentbox(email));
+    }
+    const { events, scannedTo } = await this.mailEvents!.sentboxEvents(email);
+    const records = await this.mailer.getSentbox(email, { blockTag: scannedTo });
+    return this.normalizeMailRecords(matchMailEvents(records.map(viewRecord), events, `sentbox ${email}`));
+  }
+
+  // Calls handler for each new MailSent to (or, with mailbox 'sentbox', from) email until unsubscribed.
+  async subscribe(email: string, handler: NewMailHandler, options: MailSubscriptionOptions = {}): Promise<MailSubscription> {
+    const { mailer } = this.contracts('subscribe');
+    const mailbox = options.mailbox ?? 'inbox';
+    const filter = mailbox === 'inbox' ? mailer.filters.MailSent(null, email) : mailer.filters.MailSent(null, null, email);
+    const onError = options.onError ?? ((error: Error) => this.logger.error('Mail subscription error', { email, error }));
+
+    const subscription = new MailSubscription(
+      mailer,
+      this.provider!,
+      filter,
+      async (event) => {
+        // the log only carries hashes of the indexed emails, so the record comes from the view
+        const mail = await mailer.getMail(event.mailId);
+        const [record] = this.normalizeMailRecords([
+          { ...viewRecord(mail), mailId: event.mailId, txHash: event.txHash, blockNumber: event.blockNumber }
+        ]);
+        const delivered: NewMailEvent = { mailbox, email, record };
+        if (options.decrypt) {
+          try {
+            const pkg = await this.loadPackage(record.mailId.toString(), record.contentCID);
+            delivered.content = await this.decryptPackage(pkg, mailbox, options.messagingPrivateKey);
+          } catch (error) {
+            delivered.decryptError = error as Error;
+          }
+        }
+        await handler(delivered);
+      },
+      { blockRange: this.config.logBlockRange, onError }
+    );
+    await subscription.start(options.fromBlock);
+    return subscription;
   }
 
-  async retrieveMail(mailId: string, recipientPrivateKey: string): Promise<MailContent> {
+  async retrieveMail(mailId: string, recipientPrivateKey?: string): Promise<MailContent> {
+    const { pkg } = await this.loadMail(mailId);
+    return this.decryptPackage(pkg, 'inbox', recipientPrivateKey);
+  }
+
+  async retrieveVerifiedMail(mailId: string, recipientPrivateKey?: string): Promise<VerifiedMailContent> {
+    const { record, pkg } = await this.loadMail(mailId);
+    const owner = await this.resolveOwner(record.senderEmail);
+    const verified = await this.encryption.decryptAndVerify(pkg, await this.messagingPrivateKey(recipientPrivateKey), owner);
+
+    if (verified.content.from !== record.senderEmail) {
+      return {
+        content: verified.content,
+        sender: { verified: false, signer: verified.sender.signer, expectedSigner: owner, reason: 'sender-mismatch' }
+      };
+    }
+    return verified;
+  }
+
+  async retrieveSentMail(mailId: string, senderPrivateKey?: string): Promise<MailContent> {
+    const { pkg } = await this.loadMail(mailId);
+    return this.decryptPackage(pkg, 'sentbox', senderPrivateKey);
+  }
+
+  async *downloadAttachment(mailId: string, attachmentIndex: number, messagingPrivateKey?: string): AsyncGenerator<Buffer> {
+    const { pkg } = await this.loadMail(mailId);
+    const contentKey = this.encryption.openContentKey(pkg, await this.messagingPrivateKey(messagingPrivateKey));
+    const meta = this.encryption.decryptWithContentKey(pkg, contentKey).attachments?.[attachmentIndex];
+    if (!meta?.cid) {
+      throw new Error(`Attachment ${attachmentIndex} has no uploaded content`);
+    }
+
+    yield* this.encryption.decryptAttachment(this.storageFor('downloadAttachment').retrieveStream(meta.cid), contentKey, meta);
+  }
+
+  async downloadAttachmentBuffer(mailId: string, attachmentIndex: number, privateKey?: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.downloadAttachment(mailId, attachmentIndex, privateKey)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async deriveMessagingKeys(): Promise<MessagingKeyPair> {
+    const signer = this.need(
+      this.signer,
+      'Deriving messaging keys',
+      'a signer',
+      'pass a messaging private key or unlock a keystore key instead'
+    );
+    if (!this.messagingKeys) {
+      this.messagingKeys = deriveMessagingKeyPair(signer).catch((error) => {
+        this.messagingKeys = undefined;
+        throw error;
+      });
+    }
+    return this.messagingKeys;
+  }
+
+  async publishMessagingKey(options: MessagingKeyAnnouncementOptions = {}): Promise<MessagingKeyAnnouncement> {
+    if (!this.backend) {
+      throw new Error('backend is not configured; cannot publish messaging key');
+    }
+    const signer = this.need(this.signer, 'publishMessagingKey', 'a signer');
+    const keys = await this.deriveMessagingKeys();
+    const announcement = await createMessagingKeyAnnouncement(signer, keys.publicKey, options);
+    await this.backend.publishMessagingKey(announcement);
+    this.keyDirectory?.invalidate(announcement.address);
+    return announcement;
+  }
+
+  async lookupMessagingKey(email: string): Promise<string> {
+    if (!this.keyDirectory) {
+      throw new Error('backend is not configured; cannot look up messaging key');
+    }
+    const owner = await this.resolveOwner(email);
+    const announcement = await this.keyDirectory.lookup(owner);
+    return announcement.publicKey;
+  }
+
+  async unlockMessagingKey(idOrLabel: string, password: string): Promise<void> {
+    if (!this.config.keystore) {
+      throw new Error('keystore is not configured; cannot unlock messaging key');
+    }
+    this.unlockedKey = await this.config.keystore.unlock(idOrLabel, password);
+  }
+
+  lockMessagingKey(): void {
+    this.unlockedKey = undefined;
+  }
+
+  private async messagingPrivateKey(explicit?: string): Promise<string> {
+    return explicit ?? this.unlockedKey ?? (await this.deriveMessagingKeys()).privateKey;
+  }
+
+  private async uploadAttachments(attachments: SendMailAttachment[] | undefined): Promise<AttachmentMeta[] | undefined> {
+    if (!attachments || attachments.length === 0) return undefined;
+
+    const uploaded: AttachmentMeta[] = [];
+    for (const attachment of attachments) {
+      if (!('data' in attachment)) {
+        uploaded.push(attachment);
+        continue;
+      }
+      const key = this.encryption.generateContentKey();
+      const encrypted = this.encryption.encryptAttachment(attachment, key);
+      const cid = await this.storageFor('sendMail').uploadStream(encrypted.chunks);
+      uploaded.push({ ...encrypted.meta(), cid, key: toHex(key) });
+    }
+    return uploaded;
+  }
+
+  private async loadMail(mailId: string): Promise<{ record: MailRecord; pkg: EncryptedMailPackage }> {
+    if (!this.mailer) {
+      const { mail, package: pkg } = await this.backendOnly('retrieveMail').getMail(mailId, { includePackage: true });
+      const record = this.normalizeMailRecords([mail])[0];
+      // the service leaves cid unset when it cannot tell the on-chain hash is a digest
+      return { record, pkg: pkg ?? (await this.storageFor('retrieveMail').retrieve(mail.cid ?? bytes32ToCid(mail.contentHash))) };
+    }
     const mail = await this.mailer.getMail(mailId);
-    const normalized = this.normalizeMailRecords([mail])[0];
+    const record = this.normalizeMailRecords([{ ...viewRecord(mail), mailId }])[0];
+    return { record, pkg: await this.loadPackage(mailId, record.contentCID) };
+  }
 
-    const cidKey = normalized.contentCID;
-    let cid = await this.cidStore.get(cidKey);
+  // Finds the package an on-chain contentCID names, for callers that already hold the mail record.
+  private async loadPackage(mailId: string, cidKey: string): Promise<EncryptedMailPackage> {
+    const storedCid = await this.cidStore.get(cidKey);
+    // without storage of its own the client takes the package from the backend
+    if (storedCid && (this.storage || !this.backend)) {
+      return this.storageFor('retrieveMail').retrieve(storedCid);
+    }
 
-    if (!cid && this.backend) {
-      const backendMail = await this.backend.getMail(mailId);
-      cid = backendMail.mail.contentCID;
-      if (cid) {
-        await this.cidStore.set(cidKey, cid);
+    // Mail sent before digest encoding carries keccak256(cid) on chain. Rebuilding a CID from that names content that
+    // does not exist, and fetching it waits out every source's timeout, so the backend is asked first.
+    if (this.backend) {
+      const backendMail = await this.backend.getMail(mailId, { includePackage: true }).catch((error) => {
+        this.logger.debug('Backend has no record of mail', { mailId, error });
+        return undefined;
+      });
+      if (backendMail?.package) {
+        return backendMail.package;
       }
-      if (backendMail.package) {
-        return this.encryption.decrypt(backendMail.package, recipientPrivateKey);
+      if (backendMail?.mail.cid) {
+        await this.cidStore.set(cidKey, backendMail.mail.cid);
+        return this.storageFor('retrieveMail').retrieve(backendMail.mail.cid);
       }
     }
 
-    if (!cid) {
-      throw new Error('CID not found locally. Provide cidStore or backend to resolve.');
+    try {
+      return await this.storageFor('retrieveMail').retrieve(bytes32ToCid(cidKey));
+    } catch (error) {
+      throw new Error(
+        `Unable to retrieve mail ${mailId}: contentCID is not a recoverable CID digest and no cidStore or backend maps it (${(error as Error).message})`
+      );
     }
+  }
+
+  private async decryptPackage(pkg: EncryptedMailPackage, mailbox: Mailbox, privateKey?: string): Promise<MailContent> {
+    if (mailbox === 'sentbox' && !pkg.archive) {
+      throw new Error('Mail was sent without an archive key; the sender copy cannot be decrypted');
+    }
+    return this.encryption.decrypt(pkg, await this.messagingPrivateKey(privateKey));
+  }
+
+  private async submitDeliveries(
+    proof: string,
+    cid: string,
+    contentCID: string,
+    senderEmail: string,
+    recipientEmails: string[]
+  ): Promise<MailDelivery[]> {
+    const deliveries: MailDelivery[] = [];
+    for (const recipientEmail of recipientEmails) {
+      const tx = await this.mailer!.sendMail(proof, contentCID, senderEmail, recipientEmail);
+      const receipt = await tx.wait();
+      const mailId = this.extractMailIdFromReceipt(receipt?.logs); // fallback later
+      deliveries.push({ recipientEmail, mailId: mailId ?? '0', txHash: tx.hash, cid });
+    }
+    return deliveries;
+  }
+
+  // One signature authorizes every recipient; the backend submits and pays for each transaction.
+  private async relayDeliveries(
+    proof: string,
+    cid: string,
+    contentCID: string,
+    senderEmail: string,
+    recipientEmails: string[]
+  ): Promise<MailDelivery[]> {
+    const { chainId } = await this.provider!.getNetwork();
+    const domain = relayAuthorizationDomain(chainId, this.config.mailerAddress);
+    const authorization = await signRelayAuthorization(this.signer!, domain, { proof, contentCID, senderEmail }, recipientEmails);
 
-    const pkg = await this.storage.retrieve(cid);
-    return this.encryption.decrypt(pkg, recipientPrivateKey);
+    const deliveries: MailDelivery[] = [];
+    for (const recipientEmail of recipientEmails) {
+      const response = await this.backend!.sendMail({ proof, cid, senderEmail, recipientEmail, authorization });
+      deliveries.push({ recipientEmail, mailId: response.mailId, txHash: response.txHash, cid });
+    }
+    return deliveries;
   }
 
   private async resolveRecipient(email: string): Promise<RecipientResolutionResult> {
     const owner = await this.resolveOwner(email);
     if (!this.recipientResolver) {
-      throw new Error('recipientResolver is not configured; cannot derive public key');
+      throw new Error('recipientResolver or backend must be configured to look up recipient public keys');
     }
     return this.recipientResolver(email, owner);
   }
 
+  private need<T>(value: T | undefined, action: string, capability: string, hint?: string): T {
+    if (value === undefined) {
+      throw new Error(`${action} requires ${capability}, which this client was not configured with${hint ? `; ${hint}` : ''}`);
+    }
+    return value;
+  }
+
+  private contracts(action: string): { registry: Contract; mailer: Contract } {
+    this.need(this.provider, action, 'a provider or rpcUrl');
+    return { registry: this.registry!, mailer: this.mailer! };
+  }
+
+  private storageFor(action: string): StorageProvider {
+    return this.need(this.storage, action, 'storage, storageProvider or ipfs configuration');
+  }
+
+  private backendOnly(action: string): BackendAPI {
+    return this.need(this.backend, action, 'a provider, rpcUrl or backend');
+  }
+
+  // Accepts both event-matched chain records and the service's stored mails, which name the bytes32 contentHash.
   private normalizeMailRecords(records: any[]): MailRecord[] {
-    return records.map((record, index) => ({
-      mailId: BigInt(record.mailId ?? index),
-      contentCID: record.contentCID,
+    return records.map((record) => ({
+      mailId: BigInt(record.mailId),
+      contentCID: record.contentCID ?? record.contentHash,
       senderEmail: record.senderEmail,
       recipientEmail: record.recipientEmail,
       timestamp: BigInt(record.timestamp ?? 0),
-      verified: Boolean(record.verified)
+      verified: Boolean(record.verified),
+      txHash: record.txHash,
+      blockNumber: record.blockNumber === undefined ? undefined : Number(record.blockNumber)
     }));
   }
 
   private extractMailIdFromReceipt(logs?: readonly any[]): string | undefined {
     if (!logs) return undefined;
-    const event = this.mailer.interface.getEvent('MailSent');
+    const event = this.mailer?.interface.getEvent('MailSent');
     if (!event || !event.topicHash) return undefined;
 
     for (const log of logs) {
       const topics = log.topics ?? [];
       if (topics.length > 0 && topics[0] === event.topicHash) {
-        const parsed = this.mailer.interface.parseLog({ data: log.data, topics: log.topics });
+        const parsed = this.mailer!.interface.parseLog({ data: log.data, topics: log.topics });
         return parsed?.args?.mailId?.toString();
       }
     }
     return undefined;
   }
 }
+
+// ethers returns view tuples as Result proxies; copy out the named fields.
+function viewRecord(result: any): { contentCID: string; senderEmail: string; recipientEmail: string; timestamp: bigint; verified: boolean } {
+  return {
+    contentCID: result.contentCID,
+    senderEmail: result.senderEmail,
+    recipientEmail: result.recipientEmail,
+    timestamp: result.timestamp,
+    verified: result.verified
+  };
+}
@@ -0,0 +1,145 @@
+import { id, type Contract, type ContractEventName, type EventLog, type Log, type Provider } from 'ethers';
+
+export interface MailSentEvent {
+  mailId: bigint;
+  contentCID: string;
+  timestamp: bigint;
+  txHash: string;
+  blockNumber: number;
+  // keccak256 of the indexed emails, as logged
+  recipientHash: string;
+  senderHash: string;
+}
+
+export interface MailEventScan {
+  events: MailSentEvent[];
+  scannedTo: number; // last block the events cover
+}
+
+export interface MailEventIndexOptions {
+  // block the mailer was deployed at; nothing before it is scanned. Listings refuse to run without it, since
+  // scanning from genesis would take tens of thousands of eth_getLogs calls.
+  fromBlock?: number;
+  // blocks per eth_getLogs call, kept under common RPC range limits
+  blockRange?: number;
+}
+
+interface MailboxScan {
+  scannedTo: number;
+  events: MailSentEvent[];
+  pending?: Promise<MailEventScan>;
+}
+
+// The inbox and sentbox views carry no mail IDs, so they are recovered from MailSent logs filtered on the
+// indexed recipient or sender. Each mailbox remembers how far it was scanned; later listings only fetch new blocks.
+export class MailEventIndex {
+  private readonly scans = new Map<string, MailboxScan>();
+  private readonly fromBlock?: number;
+  private readonly blockRange: number;
+
+  constructor(
+    private readonly mailer: Contract,
+    private readonly provider: Provider,
+    options: MailEventIndexOptions = {}
+  ) {
+    this.fromBlock = options.fromBlock;
+    this.blockRange = options.blockRange ?? 10_000;
+  }
+
+  inboxEvents(email: string): Promise<MailEventScan> {
+    return this.events(`to:${email}`, this.mailer.filters.MailSent(null, email));
+  }
+
+  sentboxEvents(email: string): Promise<MailEventScan> {
+    return this.events(`from:${email}`, this.mailer.filters.MailSent(null, null, email));
+  }
+
+  // A one-off scan that leaves the cached state alone, for callers that keep their own checkpoint.
+  inboxEventsSince(email: string, fromBlock: number): Promise<MailEventScan> {
+    const scan: MailboxScan = { scannedTo: Math.max(fromBlock, this.fromBlock ?? 0) - 1, events: [] };
+    return this.scan(scan, this.mailer.filters.MailSent(null, email));
+  }
+
+  private events(key: string, filter: ContractEventName): Promise<MailEventScan> {
+    let scan = this.scans.get(key);
+    if (!scan) {
+      if (this.fromBlock === undefined) {
+        return Promise.reject(
+          new Error('Listing mailboxes from MailSent events requires eventStartBlock; set it to the mailer deployment block')
+        );
+      }
+      scan = { scannedTo: this.fromBlock - 1, events: [] };
+      this.scans.set(key, scan);
+    }
+    // concurrent listings share one scan so no range is fetched, and no event recorded, twice
+    if (scan.pending) return scan.pending;
+    const current = scan;
+    const pending = this.scan(current, filter).finally(() => {
+      current.pending = undefined;
+    });
+    current.pending = pending;
+    return pending;
+  }
+
+  private async scan(scan: MailboxScan, filter: ContractEventName): Promise<MailEventScan> {
+    const latest = await this.provider.getBlockNumber();
+    for (let from = scan.scannedTo + 1; from <= latest; from += this.blockRange) {
+      const to = Math.min(from + this.blockRange - 1, latest);
+      const logs = (await this.mailer.queryFilter(filter, from, to)) as (EventLog | Log)[];
+      for (const log of logs) {
+        const event = toMailSentEvent(log);
+        if (event) scan.events.push(event);
+      }
+      // progress is kept chunk by chunk, so a failed call resumes where it stopped
+      scan.scannedTo = to;
+    }
+    // a copy, so a later scan cannot add events past the block reported here
+    return { events: [...scan.events], scannedTo: scan.scannedTo };
+  }
+}
+
+// Logs the contract interface could not decode carry no args and are skipped.
+export function toMailSentEvent(log: EventLog | Log): MailSentEvent | undefined {
+  if (!('args' in log) || !log.args) return undefined;
+  return {
+    mailId: BigInt(log.args.mailId),
+    contentCID: String(log.args.contentCID).toLowerCase(),
+    timestamp: BigInt(log.args.timestamp),
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    recipientHash: log.topics[2].toLowerCase(),
+    senderHash: log.topics[3].toLowerCase()
+  };
+}
+
+// Pairs each view entry with the event that created it. Entries are matched on content, timestamp, recipient and
+// sender rather than position, so a listing that starts after the first mails still lines up, and the deliveries
+// of one mail to several recipients in one block each keep their own id. The view must be read at or before the
+// block the events cover.
+export function matchMailEvents<
+  T extends { contentCID: string; timestamp: bigint | number | string; senderEmail: string; recipientEmail: string }
+>(
+  records: T[],
+  events: MailSentEvent[],
+  mailbox: string
+): (T & Pick<MailSentEvent, 'mailId' | 'txHash' | 'blockNumber'>)[] {
+  const unmatched = [...events];
+  return records.map((record) => {
+    const recipientHash = id(record.recipientEmail);
+    const senderHash = id(record.senderEmail);
+    const index = unmatched.findIndex(
+      (event) =>
+        event.contentCID === record.contentCID.toLowerCase() &&
+        event.timestamp === BigInt(record.timestamp) &&
+        event.recipientHash === recipientHash &&
+        event.senderHash === senderHash
+    );
+    if (index < 0) {
+      throw new Error(
+        `No MailSent event found for ${mailbox} mail ${record.contentCID}; eventStartBlock must not be after the mailer deployment`
+      );
+    }
+    const [event] = unmatched.splice(index, 1);
+    return { ...record, mailId: event.mailId, txHash: event.txHash, blockNumber: event.blockNumber };
+  });
+}
@@ -0,0 +1,123 @@
+import type { Contract, ContractEventName, ContractEventPayload, EventLog, Log, Provider } from 'ethers';
+import type { MailContent, MailRecord } from '../types/mail.js';
+import { toMailSentEvent, type MailSentEvent } from './MailEventIndex.js';
+
+export type Mailbox = 'inbox' | 'sentbox';
+
+export interface NewMailEvent {
+  mailbox: Mailbox;
+  email: string;
+  record: MailRecord;
+  content?: MailContent; // set when the subscription decrypts
+  decryptError?: Error; // the mail is still delivered when decryption fails
+}
+
+export type NewMailHandler = (event: NewMailEvent) => void | Promise<void>;
+
+export interface MailSubscriptionOptions {
+  mailbox?: Mailbox; // inbox by default
+  fromBlock?: number; // replay mail from this block before going live; by default only mail after subscribing
+  decrypt?: boolean;
+  messagingPrivateKey?: string; // otherwise the client's unlocked or derived key is used
+  onError?: (error: Error) => void;
+}
+
+// how far the checkpoint may fall behind the block stream before the range since it is swept
+const SWEEP_BLOCKS = 10;
+
+// Delivers MailSent logs for one mailbox in order and at most once. Logs arrive live through a provider filter on
+// the indexed email topic, which may report a block's logs well after the block itself. The checkpoint therefore
+// only moves when a query over the blocks above it completes: on start, and whenever the block stream gets
+// SWEEP_BLOCKS ahead, which also picks up logs the live filter missed (a reconnect, a dropped poll). Mail seen both
+// ways, or twice by the live filter, is dropped by mailId; logs at or below the checkpoint were returned by a
+// completed query and so are already delivered, which keeps only mail above it in memory.
+export class MailSubscription {
+  // every matching log at or below this block has been delivered
+  private checkpoint = -1;
+  // mailId to block, for delivered mail above the checkpoint
+  private readonly delivered = new Map<bigint, number>();
+  private readonly blockRange: number;
+  private queue: Promise<void> = Promise.resolve();
+  private backfilling?: Promise<void>;
+  private held: (EventLog | Log)[] = [];
+  private active = false;
+
+  constructor(
+    private readonly mailer: Contract,
+    private readonly provider: Provider,
+    private readonly filter: ContractEventName,
+    private readonly deliver: (event: MailSentEvent) => Promise<void>,
+    private readonly options: { blockRange?: number; onError: (error: Error) => void }
+  ) {
+    this.blockRange = options.blockRange ?? 10_000;
+  }
+
+  async start(fromBlock?: number): Promise<void> {
+    if (this.active) return;
+    const latest = await this.provider.getBlockNumber();
+    this.checkpoint = fromBlock === undefined ? latest : fromBlock - 1;
+    this.active = true;
+    await this.mailer.on(this.filter, this.onLog);
+    await this.provider.on('block', this.onBlock);
+    if (this.checkpoint < latest) this.backfill(latest);
+  }
+
+  // Resolves once handlers already running for delivered mail have finished.
+  async unsubscribe(): Promise<void> {
+    if (!this.active) return;
+    this.active = false;
+    await this.mailer.off(this.filter, this.onLog);
+    await this.provider.off('block', this.onBlock);
+    await this.backfilling;
+    await this.queue;
+  }
+
+  private readonly onLog = (...args: unknown[]): void => {
+    const { log } = args[args.length - 1] as ContractEventPayload;
+    // held until the backfill, which may still deliver earlier mail, is done
+    if (this.backfilling) {
+      this.held.push(log);
+    } else {
+      this.receive(log);
+    }
+  };
+
+  private readonly onBlock = (blockNumber: number): void => {
+    if (!this.active || this.backfilling) return;
+    if (blockNumber - this.checkpoint > SWEEP_BLOCKS) this.backfill(blockNumber);
+  };
+
+  // A failed range stays uncovered and is retried on the next block.
+  private backfill(to: number): void {
+    this.backfilling = (async () => {
+      for (let from = this.checkpoint + 1; from <= to && this.active; from += this.blockRange) {
+        const end = Math.min(from + this.blockRange - 1, to);
+        const logs = (await this.mailer.queryFilter(this.filter, from, end)) as (EventLog | Log)[];
+        logs.forEach((log) => this.receive(log));
+        this.advance(end);
+      }
+    })()
+      .catch((error) => this.options.onError(error as Error))
+      .finally(() => {
+        this.backfilling = undefined;
+        const held = this.held;
+        this.held = [];
+        held.forEach((log) => this.receive(log));
+      });
+  }
+
+  private advance(block: number): void {
+    if (block <= this.checkpoint) return;
+    this.checkpoint = block;
+    for (const [mailId, deliveredIn] of this.delivered) {
+      if (deliveredIn <= block) this.delivered.delete(mailId);
+    }
+  }
+
+  private receive(log: EventLog | Log): void {
+    const event = toMailSentEvent(log);
+    if (!this.active || !event || event.blockNumber <= this.checkpoint || this.delivered.has(event.mailId)) return;
+    this.delivered.set(event.mailId, event.blockNumber);
+    this.queue = this.queue.then(() => this.deliver(event)).catch((error) => this.options.onError(error as Error));
+  }
+}
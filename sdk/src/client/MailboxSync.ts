@@ -0,0 +1,166 @@
+import type { BaseMailerClient } from './BaseMailerClient.js';
+import { InMemoryMailboxStore, type MailboxState, type MailboxStore, type SyncedMail } from './mailbox-store.js';
+
+export interface MailboxSyncOptions {
+  store?: MailboxStore;
+  startBlock?: number; // where a mailbox without a checkpoint starts; defaults to the client's eventStartBlock
+  batchSize?: number; // mails retrieved between checkpoint saves
+  concurrency?: number; // retrievals in flight within a batch
+  messagingPrivateKey?: string; // otherwise the client's unlocked or derived key is used
+}
+
+export interface MailboxSyncResult {
+  added: string[]; // mail IDs first seen in this sync
+  retrieved: string[];
+  failed: string[]; // still undecrypted; retried on the next sync
+  syncedBlock: number;
+}
+
+export interface MailboxFilter {
+  unread?: boolean;
+  flag?: string;
+}
+
+type MailSource = Pick<BaseMailerClient, 'getInboxSince' | 'retrieveMail' | 'eventStartBlock'>;
+
+// Keeps a local copy of each inbox: only MailSent events after the checkpoint are fetched, and packages are
+// retrieved and decrypted in batches. The checkpoint is saved before retrieval, so mail that fails to decrypt
+// is remembered and retried rather than rescanned.
+export class MailboxSync {
+  private readonly store: MailboxStore;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly concurrency: number;
+  private readonly mailboxes = new Map<string, Promise<MailboxState>>();
+  private readonly syncing = new Map<string, Promise<MailboxSyncResult>>();
+
+  constructor(
+    private readonly client: MailSource,
+    private readonly options: MailboxSyncOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryMailboxStore();
+    const startBlock = options.startBlock ?? client.eventStartBlock;
+    if (startBlock === undefined) {
+      throw new Error('MailboxSync needs startBlock or a client configured with eventStartBlock');
+    }
+    this.startBlock = startBlock;
+    this.batchSize = options.batchSize ?? 25;
+    this.concurrency = options.concurrency ?? 4;
+    if (this.batchSize < 1 || this.concurrency < 1) {
+      throw new Error('MailboxSync batchSize and concurrency must be at least 1');
+    }
+  }
+
+  // Concurrent calls for the same mailbox share one sync.
+  sync(email: string, options: { signal?: AbortSignal } = {}): Promise<MailboxSyncResult> {
+    let pending = this.syncing.get(email);
+    if (!pending) {
+      pending = this.run(email, options.signal).finally(() => this.syncing.delete(email));
+      this.syncing.set(email, pending);
+    }
+    return pending;
+  }
+
+  async list(email: string, filter: MailboxFilter = {}): Promise<SyncedMail[]> {
+    const { mails } = await this.mailbox(email);
+    return mails.filter(
+      (mail) =>
+        (filter.unread === undefined || mail.read !== filter.unread) &&
+        (filter.flag === undefined || mail.flags.includes(filter.flag))
+    );
+  }
+
+  async get(email: string, mailId: string): Promise<SyncedMail | undefined> {
+    const { mails } = await this.mailbox(email);
+    return mails.find((mail) => String(mail.record.mailId) === mailId);
+  }
+
+  async unreadCount(email: string): Promise<number> {
+    return (await this.list(email, { unread: true })).length;
+  }
+
+  async markRead(email: string, mailId: string, read = true): Promise<void> {
+    await this.update(email, mailId, (mail) => {
+      mail.read = read;
+    });
+  }
+
+  async setFlag(email: string, mailId: string, flag: string, set = true): Promise<void> {
+    await this.update(email, mailId, (mail) => {
+      mail.flags = mail.flags.filter((existing) => existing !== flag);
+      if (set) mail.flags.push(flag);
+    });
+  }
+
+  private async run(email: string, signal?: AbortSignal): Promise<MailboxSyncResult> {
+    const state = await this.mailbox(email);
+    const { records, syncedTo } = await this.client.getInboxSince(email, state.syncedBlock + 1);
+
+    const known = new Set(state.mails.map((mail) => String(mail.record.mailId)));
+    const added: string[] = [];
+    for (const record of records) {
+      const mailId = String(record.mailId);
+      if (known.has(mailId)) continue;
+      known.add(mailId);
+      state.mails.push({ record, read: false, flags: [] });
+      added.push(mailId);
+    }
+    state.syncedBlock = Math.max(state.syncedBlock, syncedTo);
+    await this.store.save(state);
+
+    const retrieved: string[] = [];
+    const pending = state.mails.filter((mail) => !mail.content);
+    for (let start = 0; start < pending.length; start += this.batchSize) {
+      if (signal?.aborted) {
+        throw new Error('Mailbox sync aborted');
+      }
+      await eachLimited(pending.slice(start, start + this.batchSize), this.concurrency, async (mail) => {
+        const mailId = String(mail.record.mailId);
+        try {
+          mail.content = await this.client.retrieveMail(mailId, this.options.messagingPrivateKey);
+          mail.error = undefined;
+          retrieved.push(mailId);
+        } catch (error) {
+          mail.error = (error as Error).message;
+        }
+      });
+      await this.store.save(state);
+    }
+
+    const failed = state.mails.filter((mail) => !mail.content).map((mail) => String(mail.record.mailId));
+    return { added, retrieved, failed, syncedBlock: state.syncedBlock };
+  }
+
+  // One state object per mailbox is shared by syncs and flag changes, so neither overwrites the other's save.
+  private mailbox(email: string): Promise<MailboxState> {
+    let state = this.mailboxes.get(email);
+    if (!state) {
+      state = this.store
+        .load(email)
+        .then((loaded) => loaded ?? { email, syncedBlock: this.startBlock - 1, mails: [] });
+      state.catch(() => this.mailboxes.delete(email));
+      this.mailboxes.set(email, state);
+    }
+    return state;
+  }
+
+  private async update(email: string, mailId: string, change: (mail: SyncedMail) => void): Promise<void> {
+    const state = await this.mailbox(email);
+    const mail = state.mails.find((candidate) => String(candidate.record.mailId) === mailId);
+    if (!mail) {
+      throw new Error(`Mail ${mailId} is not in the ${email} mailbox; sync it first`);
+    }
+    change(mail);
+    await this.store.save(state);
+  }
+}
+
+async function eachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
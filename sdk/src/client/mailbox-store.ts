@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailContent, MailRecord } from '../types/mail.js';
+
+export interface MailboxState {
+  email: string;
+  syncedBlock: number; // last block whose MailSent events are recorded
+  mails: SyncedMail[]; // in delivery order
+}
+
+export interface SyncedMail {
+  record: MailRecord;
+  content?: MailContent; // decrypted; absent until retrieval succeeds
+  error?: string; // last retrieval failure, retried on the next sync
+  read: boolean;
+  flags: string[];
+}
+
+// Holds decrypted mail, so persistent implementations should live somewhere only the mailbox owner can read.
+export interface MailboxStore {
+  load(email: string): Promise<MailboxState | undefined>;
+  save(state: MailboxState): Promise<void>;
+}
+
+export class InMemoryMailboxStore implements MailboxStore {
+  private readonly states = new Map<string, MailboxState>();
+
+  async load(email: string): Promise<MailboxState | undefined> {
+    const state = this.states.get(email);
+    return state && structuredClone(state);
+  }
+
+  async save(state: MailboxState): Promise<void> {
+    this.states.set(state.email, structuredClone(state));
+  }
+}
+
+// One JSON file per mailbox, readable by the owner only. Saves replace the file through a temp file, one at a time,
+// so a crash or an overlapping save never leaves a truncated or older checkpoint behind.
+export class FileMailboxStore implements MailboxStore {
+  private readonly directory: string;
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(directory: string) {
+    if (!directory) {
+      throw new Error('Mailbox store directory is required');
+    }
+    this.directory = path.resolve(directory);
+  }
+
+  async load(email: string): Promise<MailboxState | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath(email), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+    const state = JSON.parse(raw) as MailboxState;
+    for (const mail of state.mails) {
+      mail.record.mailId = BigInt(mail.record.mailId);
+      mail.record.timestamp = BigInt(mail.record.timestamp);
+    }
+    return state;
+  }
+
+  save(state: MailboxState): Promise<void> {
+    // serialized now, so later changes to the shared state object go into the next save
+    const data = JSON.stringify(state, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+    const file = this.filePath(state.email);
+    const write = (this.writes.get(file) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.replace(file, data));
+    this.writes.set(file, write);
+    return write;
+  }
+
+  private async replace(file: string, data: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const temp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temp, data, { mode: 0o600 });
+      await rename(temp, file);
+    } catch (error) {
+      await rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private filePath(email: string): string {
+    return path.join(this.directory, `${encodeURIComponent(email)}.json`);
+  }
+}
@@ -1,134 +1,360 @@
-import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
-import { getPublicKey, getSharedSecret } from '@noble/secp256k1';
-import type { EncryptedMailPackage, MailContent } from '../types/index.js';
+import { createHash, randomBytes, randomInt } from 'crypto';
+import type {
+  AttachmentInput,
+  AttachmentMeta,
+  EncryptedArchivePayload,
+  EncryptedContentPayload,
+  EncryptedKeyPayload,
+  EncryptedMailPackage,
+  MailContent,
+  VerifiedMailContent
+} from '../types/index.js';
 import { deriveKey } from '../utils/hkdf.js';
 import { ConsoleLogger, type Logger } from '../utils/logger.js';
 import { fromHex, toHex } from '../utils/bytes.js';
+import { verifyMailSender } from './mail-signature.js';
+import { CipherSuiteRegistry, SECP256K1_AES_256_GCM, type AeadCipher, type CipherSuite } from './cipher-suites.js';
+
+export const SUPPORTED_PACKAGE_VERSIONS = ['1.0', '2.0'] as const;
 
 export interface EncryptionManagerOptions {
   version?: string;
   logger?: Logger;
+  attachmentChunkSize?: number;
+  suite?: string;
+  registry?: CipherSuiteRegistry;
+  padding?: PaddingOption;
+  hideMetadata?: boolean;
+}
+
+// 'power-of-two' rounds plaintexts up to the next power of two (minimum 256 bytes);
+// { step } rounds up to the next multiple of `step` bytes.
+export type PaddingOption = 'none' | 'power-of-two' | { step: number };
+
+export interface EncryptOptions {
+  archivePublicKey?: string;
+  contentKey?: Buffer;
+  suite?: string;
+}
+
+export interface EncryptedAttachmentStream {
+  chunks: AsyncIterable<Buffer>;
+  // only complete once `chunks` has been fully consumed
+  meta(): AttachmentMeta;
+}
+
+const ATTACHMENT_TAG_LENGTH = 16;
+const ATTACHMENT_HEADER_LENGTH = 5; // final flag + u32 ciphertext length
+
+interface ArchiveContents {
+  contentKey: string;
+  bcc?: string[];
 }
 
 export class EncryptionManager {
   private readonly version: string;
   private readonly logger: Logger;
+  private readonly attachmentChunkSize: number;
+  private readonly registry: CipherSuiteRegistry;
+  private readonly defaultSuite: string;
+  private readonly padding: PaddingOption;
+  private readonly hideMetadata: boolean;
 
   constructor(options: EncryptionManagerOptions = {}) {
-    this.version = options.version ?? '1.0';
+    this.version = options.version ?? '2.0';
+    if (!(SUPPORTED_PACKAGE_VERSIONS as readonly string[]).includes(this.version)) {
+      throw new Error(`Unsupported package version ${this.version}; supported: ${SUPPORTED_PACKAGE_VERSIONS.join(', ')}`);
+    }
     this.logger = options.logger ?? new ConsoleLogger('warn');
+    this.attachmentChunkSize = options.attachmentChunkSize ?? 256 * 1024;
+    this.registry = options.registry ?? new CipherSuiteRegistry();
+    this.defaultSuite = options.suite ?? SECP256K1_AES_256_GCM.id;
+    this.registry.get(this.defaultSuite);
+    this.padding = options.padding ?? 'none';
+    if (typeof this.padding === 'object' && !(this.padding.step > 0)) {
+      throw new Error('Padding step must be a positive number of bytes');
+    }
+    this.hideMetadata = options.hideMetadata ?? false;
+  }
+
+  generateContentKey(): Buffer {
+    return randomBytes(32);
   }
 
-  async encrypt(content: MailContent, recipientPublicKeyHex: string): Promise<EncryptedMailPackage> {
+  async encrypt(
+    content: MailContent,
+    recipientPublicKeys: string | string[],
+    options: EncryptOptions = {}
+  ): Promise<EncryptedMailPackage> {
+    const publicKeys = Array.isArray(recipientPublicKeys) ? recipientPublicKeys : [recipientPublicKeys];
+    if (publicKeys.length === 0) {
+      throw new Error('At least one recipient public key is required');
+    }
+
     const timestamp = content.timestamp ?? Date.now();
-    const canonical = { ...content, timestamp };
-    const plaintext = Buffer.from(JSON.stringify(canonical), 'utf-8');
+    // Bcc recipients share the ciphertext, so the list itself must never be part of it.
+    const { bcc, ...visible } = content;
+    const canonical = { ...visible, timestamp };
+    const plaintext = this.pad(Buffer.from(JSON.stringify(canonical), 'utf-8'));
 
-    const symmetricKey = randomBytes(32);
-    const iv = randomBytes(12);
+    const suite = this.registry.get(options.suite ?? this.defaultSuite);
+    const symmetricKey = options.contentKey ?? this.generateContentKey();
+    const encryptedContent = this.sealContent(suite.content, plaintext, symmetricKey);
 
-    const cipher = createCipheriv('aes-256-gcm', symmetricKey, iv);
-    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
-    const authTag = cipher.getAuthTag();
+    const encryptedKeys = this.shuffle(publicKeys.map((publicKey) => suite.key.wrap(symmetricKey, publicKey)));
 
-    const recipientPublicKey = this.normalizePublicKey(recipientPublicKeyHex);
-    const { encryptedKey, mac, ephemeralPublicKey } = this.wrapSymmetricKey(symmetricKey, recipientPublicKey);
+    const archive = options.archivePublicKey
+      ? this.buildArchive(suite, { contentKey: toHex(symmetricKey), bcc }, options.archivePublicKey)
+      : undefined;
 
-    const metadataSize = ciphertext.length + encryptedKey.length;
+    const metadataSize =
+      fromHex(encryptedContent.ciphertext).length +
+      encryptedKeys.reduce((total, slot) => total + fromHex(slot.ciphertext).length, 0);
 
     return {
       version: this.version,
-      encryptedContent: {
-        algorithm: 'AES-256-GCM',
-        ciphertext: toHex(ciphertext),
-        iv: toHex(iv),
-        authTag: toHex(authTag)
-      },
-      encryptedKey: {
-        algorithm: 'ECIES-secp256k1',
-        ephemeralPublicKey: toHex(ephemeralPublicKey),
-        ciphertext: toHex(encryptedKey),
-        mac: toHex(mac)
-      },
-      metadata: {
-        version: this.version,
-        timestamp,
-        size: metadataSize,
-        contentType: 'mail'
-      }
+      encryptedContent,
+      encryptedKeys,
+      ...(archive && { archive }),
+      metadata: this.hideMetadata
+        ? { version: this.version, contentType: 'mail' }
+        : { version: this.version, timestamp, size: metadataSize, contentType: 'mail' }
     };
   }
 
   async decrypt(pkg: EncryptedMailPackage, recipientPrivateKeyHex: string): Promise<MailContent> {
-    const symmetricKey = this.unwrapSymmetricKey(pkg, recipientPrivateKeyHex);
-    const iv = fromHex(pkg.encryptedContent.iv);
-    const ciphertext = fromHex(pkg.encryptedContent.ciphertext);
-    const authTag = fromHex(pkg.encryptedContent.authTag);
+    const { contentKey, bcc } = this.unlock(pkg, recipientPrivateKeyHex);
+    const content = this.decryptWithContentKey(pkg, contentKey);
+    return bcc && bcc.length > 0 ? { ...content, bcc } : content;
+  }
 
-    const decipher = createDecipheriv('aes-256-gcm', symmetricKey, iv);
-    decipher.setAuthTag(authTag);
-    const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  openContentKey(pkg: EncryptedMailPackage, privateKeyHex: string): Buffer {
+    return this.unlock(pkg, privateKeyHex).contentKey;
+  }
+
+  // For callers that need the content key as well, so the key slot is unwrapped once. Leaves out an archived Bcc list.
+  decryptWithContentKey(pkg: EncryptedMailPackage, contentKey: Buffer): MailContent {
+    return JSON.parse(this.openContent(pkg.encryptedContent, contentKey).toString('utf-8')) as MailContent;
+  }
 
-    return JSON.parse(decrypted.toString('utf-8')) as MailContent;
+  async decryptAndVerify(
+    pkg: EncryptedMailPackage,
+    recipientPrivateKeyHex: string,
+    expectedSigner?: string
+  ): Promise<VerifiedMailContent> {
+    const content = await this.decrypt(pkg, recipientPrivateKeyHex);
+    return { content, sender: verifyMailSender(content, expectedSigner) };
   }
 
-  private wrapSymmetricKey(key: Buffer, recipientPublicKey: Uint8Array): { encryptedKey: Buffer; mac: Buffer; ephemeralPublicKey: Uint8Array } {
-    const ephemeralPrivateKey = this.generatePrivateKey();
-    const ephemeralPublicKey = getPublicKey(ephemeralPrivateKey, true);
-    const sharedSecret = this.computeSharedSecret(ephemeralPrivateKey, recipientPublicKey);
+  encryptAttachment(input: AttachmentInput, contentKey: Buffer, suiteId?: string): EncryptedAttachmentStream {
+    const aead = this.registry.get(suiteId ?? this.defaultSuite).content;
+    const chunkSize = this.attachmentChunkSize;
+    const keySalt = randomBytes(16);
+    const key = Buffer.from(deriveKey(contentKey, 'basemailer-attachment', 32, keySalt));
+    const digest = createHash('sha256');
+    let size = 0;
+    let sealed = false;
 
-    const maskKey = deriveKey(sharedSecret, 'basemailer-mask', 32);
-    const macKey = deriveKey(sharedSecret, 'basemailer-mac', 32);
+    const sealChunk = (plaintext: Buffer, index: number, final: boolean): Buffer => {
+      const header = Buffer.alloc(ATTACHMENT_HEADER_LENGTH);
+      header.writeUInt8(final ? 1 : 0, 0);
+      header.writeUInt32BE(plaintext.length, 1);
+      const { ciphertext, authTag } = aead.seal(key, this.attachmentIv(index, aead.nonceLength), plaintext, this.attachmentAad(index, final));
+      return Buffer.concat([header, ciphertext, authTag]);
+    };
 
-    const encryptedKey = Buffer.alloc(key.length);
-    for (let i = 0; i < key.length; i += 1) {
-      encryptedKey[i] = key[i] ^ maskKey[i % maskKey.length];
+    async function* chunks(): AsyncGenerator<Buffer> {
+      let index = 0;
+      let pending: Buffer | undefined;
+      for await (const piece of rechunk(input.data, chunkSize)) {
+        digest.update(piece);
+        size += piece.length;
+        if (pending) {
+          yield sealChunk(pending, index, false);
+          index += 1;
+        }
+        pending = piece;
+      }
+      yield sealChunk(pending ?? Buffer.alloc(0), index, true);
+      sealed = true;
     }
 
-    const mac = createHmac('sha256', macKey).update(encryptedKey).digest();
-    return { encryptedKey, mac, ephemeralPublicKey };
+    return {
+      chunks: chunks(),
+      meta: () => {
+        if (!sealed) {
+          throw new Error('Attachment stream has not been fully consumed');
+        }
+        return {
+          name: input.name,
+          mimeType: input.mimeType,
+          size,
+          algorithm: aead.algorithm,
+          sha256: toHex(digest.digest()),
+          chunkSize,
+          keySalt: toHex(keySalt)
+        };
+      }
+    };
   }
 
-  private unwrapSymmetricKey(pkg: EncryptedMailPackage, recipientPrivateKeyHex: string): Buffer {
-    const ephemeralPublicKey = this.normalizePublicKey(pkg.encryptedKey.ephemeralPublicKey);
-    const recipientPrivateKey = this.normalizePrivateKey(recipientPrivateKeyHex);
+  async *decryptAttachment(
+    source: AsyncIterable<Uint8Array>,
+    contentKey: Buffer,
+    meta: AttachmentMeta
+  ): AsyncGenerator<Buffer> {
+    if (!meta.keySalt) {
+      throw new Error(`Attachment ${meta.name} has no key salt; it was not uploaded encrypted`);
+    }
+
+    const aead = this.registry.contentCipher(meta.algorithm ?? 'AES-256-GCM');
+    const sealedUnder = meta.key ? fromHex(meta.key) : contentKey;
+    const key = Buffer.from(deriveKey(sealedUnder, 'basemailer-attachment', 32, fromHex(meta.keySalt)));
+    const digest = createHash('sha256');
+    let buffered = Buffer.alloc(0);
+    let index = 0;
+    let size = 0;
+    let finished = false;
 
-    const sharedSecret = this.computeSharedSecret(recipientPrivateKey, ephemeralPublicKey);
-    const maskKey = deriveKey(sharedSecret, 'basemailer-mask', 32);
-    const macKey = deriveKey(sharedSecret, 'basemailer-mac', 32);
+    for await (const piece of source) {
+      buffered = Buffer.concat([buffered, Buffer.from(piece)]);
+      while (buffered.length >= ATTACHMENT_HEADER_LENGTH) {
+        if (finished) {
+          throw new Error(`Attachment ${meta.name} has data after its final chunk`);
+        }
+        const final = buffered.readUInt8(0) === 1;
+        const length = buffered.readUInt32BE(1);
+        const frameLength = ATTACHMENT_HEADER_LENGTH + length + ATTACHMENT_TAG_LENGTH;
+        if (buffered.length < frameLength) break;
 
-    const encryptedKey = fromHex(pkg.encryptedKey.ciphertext);
-    const expectedMac = createHmac('sha256', macKey).update(encryptedKey).digest();
-    const providedMac = fromHex(pkg.encryptedKey.mac);
+        const ciphertext = buffered.subarray(ATTACHMENT_HEADER_LENGTH, ATTACHMENT_HEADER_LENGTH + length);
+        const authTag = buffered.subarray(ATTACHMENT_HEADER_LENGTH + length, frameLength);
+        const plaintext = aead.open(key, this.attachmentIv(index, aead.nonceLength), ciphertext, authTag, this.attachmentAad(index, final));
 
-    if (!expectedMac.equals(providedMac)) {
-      this.logger.error('MAC verification failed while decrypting symmetric key');
-      throw new Error('encrypted key MAC mismatch');
+        buffered = buffered.subarray(frameLength);
+        digest.update(plaintext);
+        size += plaintext.length;
+        index += 1;
+        finished = final;
+        yield plaintext;
+      }
     }
 
-    const symmetricKey = Buffer.alloc(encryptedKey.length);
-    for (let i = 0; i < encryptedKey.length; i += 1) {
-      symmetricKey[i] = encryptedKey[i] ^ maskKey[i % maskKey.length];
+    if (!finished || buffered.length > 0) {
+      throw new Error(`Attachment ${meta.name} is truncated`);
+    }
+    if (size !== meta.size || (meta.sha256 && toHex(digest.digest()) !== meta.sha256)) {
+      throw new Error(`Attachment ${meta.name} failed integrity check`);
     }
+  }
 
-    return symmetricKey;
+  private attachmentIv(index: number, length: number): Buffer {
+    const iv = Buffer.alloc(length);
+    iv.writeUInt32BE(index, length - 4);
+    return iv;
   }
 
-  private computeSharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
-    const secret = getSharedSecret(privateKey, publicKey, true);
-    return secret.slice(1); // drop format byte
+  private attachmentAad(index: number, final: boolean): Buffer {
+    const aad = Buffer.alloc(5);
+    aad.writeUInt32BE(index, 0);
+    aad.writeUInt8(final ? 1 : 0, 4);
+    return aad;
   }
 
-  private generatePrivateKey(): Uint8Array {
-    let key = randomBytes(32);
-    while (key.length === 0 || key.every((b) => b === 0)) {
-      key = randomBytes(32);
+  private unlock(pkg: EncryptedMailPackage, privateKeyHex: string): { contentKey: Buffer; bcc?: string[] } {
+    if (!(SUPPORTED_PACKAGE_VERSIONS as readonly string[]).includes(pkg.version)) {
+      throw new Error(`Unsupported package version ${pkg.version}; supported: ${SUPPORTED_PACKAGE_VERSIONS.join(', ')}`);
+    }
+    const privateKey = this.normalizePrivateKey(privateKeyHex);
+    const symmetricKey = this.unwrapSymmetricKey(pkg, privateKey);
+    if (symmetricKey) {
+      return { contentKey: symmetricKey };
+    }
+
+    const archived = pkg.archive ? this.openArchive(pkg.archive, privateKey) : undefined;
+    if (archived) {
+      return { contentKey: fromHex(archived.contentKey), bcc: archived.bcc };
     }
-    return key;
+
+    this.logger.error('MAC verification failed for every key slot while decrypting symmetric key');
+    throw new Error('no encrypted key slot matches the supplied private key');
+  }
+
+  private sealContent(aead: AeadCipher, plaintext: Buffer, key: Buffer): EncryptedContentPayload {
+    const iv = randomBytes(aead.nonceLength);
+    const { ciphertext, authTag } = aead.seal(key, iv, plaintext);
+
+    return {
+      algorithm: aead.algorithm,
+      ciphertext: toHex(ciphertext),
+      iv: toHex(iv),
+      authTag: toHex(authTag)
+    };
+  }
+
+  private openContent(payload: EncryptedContentPayload, key: Buffer): Buffer {
+    const aead = this.registry.contentCipher(payload.algorithm);
+    return aead.open(key, fromHex(payload.iv), fromHex(payload.ciphertext), fromHex(payload.authTag));
+  }
+
+  private buildArchive(suite: CipherSuite, contents: ArchiveContents, archivePublicKeyHex: string): EncryptedArchivePayload {
+    const archiveKey = randomBytes(32);
+    return {
+      encryptedKey: suite.key.wrap(archiveKey, archivePublicKeyHex),
+      encryptedContent: this.sealContent(suite.content, this.pad(Buffer.from(JSON.stringify(contents), 'utf-8')), archiveKey)
+    };
+  }
+
+  private openArchive(archive: EncryptedArchivePayload, privateKey: Uint8Array): ArchiveContents | undefined {
+    const archiveKey = this.openKeySlots([archive.encryptedKey], privateKey);
+    if (!archiveKey) return undefined;
+    return JSON.parse(this.openContent(archive.encryptedContent, archiveKey).toString('utf-8')) as ArchiveContents;
+  }
+
+  private unwrapSymmetricKey(pkg: EncryptedMailPackage, recipientPrivateKey: Uint8Array): Buffer | undefined {
+    const slots = pkg.encryptedKeys ?? (pkg.encryptedKey ? [pkg.encryptedKey] : []);
+    return this.openKeySlots(slots, recipientPrivateKey);
   }
 
-  private normalizePublicKey(hex: string): Uint8Array {
-    return new Uint8Array(fromHex(this.ensureHexPrefix(hex)));
+  private openKeySlots(slots: EncryptedKeyPayload[], recipientPrivateKey: Uint8Array): Buffer | undefined {
+    const unknown = new Set<string>();
+    for (const slot of slots) {
+      const wrapper = this.registry.keyWrapper(slot.algorithm);
+      if (!wrapper) {
+        unknown.add(slot.algorithm);
+        continue;
+      }
+      const symmetricKey = wrapper.unwrap(slot, recipientPrivateKey);
+      if (symmetricKey) return symmetricKey;
+    }
+
+    if (unknown.size > 0) {
+      throw new Error(`Unsupported key algorithm ${Array.from(unknown).join(', ')}`);
+    }
+    return undefined;
+  }
+
+  // JSON.parse ignores trailing whitespace, so space padding needs no framing and stays readable by older clients.
+  private pad(plaintext: Buffer): Buffer {
+    if (this.padding === 'none') return plaintext;
+
+    let target: number;
+    if (this.padding === 'power-of-two') {
+      target = 256;
+      while (target < plaintext.length) target *= 2;
+    } else {
+      target = Math.max(this.padding.step, Math.ceil(plaintext.length / this.padding.step) * this.padding.step);
+    }
+    return Buffer.concat([plaintext, Buffer.alloc(target - plaintext.length, 0x20)]);
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i -= 1) {
+      const j = randomInt(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
   }
 
   private normalizePrivateKey(hex: string): Uint8Array {
@@ -143,3 +369,18 @@ export class EncryptionManager {
     return value.startsWith('0x') ? value : `0x${value}`;
   }
 }
+
+async function* rechunk(data: Uint8Array | AsyncIterable<Uint8Array>, chunkSize: number): AsyncGenerator<Buffer> {
+  const source: AsyncIterable<Uint8Array> | Uint8Array[] = data instanceof Uint8Array ? [data] : data;
+  let buffered = Buffer.alloc(0);
+  for await (const piece of source) {
+    buffered = Buffer.concat([buffered, Buffer.from(piece)]);
+    while (buffered.length >= chunkSize) {
+      yield buffered.subarray(0, chunkSize);
+      buffered = buffered.subarray(chunkSize);
+    }
+  }
+  if (buffered.length > 0) {
+    yield buffered;
+  }
+}
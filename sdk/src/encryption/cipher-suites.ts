@@ -0,0 +1,246 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  randomBytes,
+  type CipherGCMTypes,
+  type KeyObject
+} from 'crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { getPublicKey, getSharedSecret } from '@noble/secp256k1';
+import type { EncryptedKeyPayload } from '../types/index.js';
+import { deriveKey } from '../utils/hkdf.js';
+import { fromHex, toHex } from '../utils/bytes.js';
+
+export interface AeadCipher {
+  algorithm: string;
+  nonceLength: number;
+  seal(key: Buffer, nonce: Buffer, plaintext: Buffer, aad?: Buffer): { ciphertext: Buffer; authTag: Buffer };
+  open(key: Buffer, nonce: Buffer, ciphertext: Buffer, authTag: Buffer, aad?: Buffer): Buffer;
+}
+
+export interface KeyWrapper {
+  algorithm: string;
+  wrap(key: Buffer, recipientPublicKeyHex: string): EncryptedKeyPayload;
+  // undefined when the slot was not sealed for this private key
+  unwrap(slot: EncryptedKeyPayload, privateKey: Uint8Array): Buffer | undefined;
+}
+
+export interface CipherSuite {
+  id: string;
+  content: AeadCipher;
+  key: KeyWrapper;
+}
+
+export const AES_256_GCM: AeadCipher = nodeAead('AES-256-GCM', 'aes-256-gcm');
+
+export const CHACHA20_POLY1305: AeadCipher = nodeAead('ChaCha20-Poly1305', 'chacha20-poly1305');
+
+// A 192-bit nonce can be drawn at random for any number of messages under one key; 96 bits cannot, which is why
+// the X25519 suite seals content with this rather than IETF ChaCha20-Poly1305.
+export const XCHACHA20_POLY1305: AeadCipher = {
+  algorithm: 'XChaCha20-Poly1305',
+  nonceLength: 24,
+  seal(key, nonce, plaintext, aad) {
+    const sealed = Buffer.from(xchacha20poly1305(key, nonce, aad).encrypt(plaintext));
+    return { ciphertext: sealed.subarray(0, sealed.length - 16), authTag: sealed.subarray(sealed.length - 16) };
+  },
+  open(key, nonce, ciphertext, authTag, aad) {
+    return Buffer.from(xchacha20poly1305(key, nonce, aad).decrypt(Buffer.concat([ciphertext, authTag])));
+  }
+};
+
+export const ECIES_SECP256K1: KeyWrapper = {
+  algorithm: 'ECIES-secp256k1',
+
+  wrap(key, recipientPublicKeyHex) {
+    const ephemeralPrivateKey = generatePrivateKey();
+    const ephemeralPublicKey = getPublicKey(ephemeralPrivateKey, true);
+    const sharedSecret = secp256k1SharedSecret(ephemeralPrivateKey, fromHex(ensureHexPrefix(recipientPublicKeyHex)));
+
+    const maskKey = deriveKey(sharedSecret, 'basemailer-mask', 32);
+    const macKey = deriveKey(sharedSecret, 'basemailer-mac', 32);
+
+    const encryptedKey = Buffer.alloc(key.length);
+    for (let i = 0; i < key.length; i += 1) {
+      encryptedKey[i] = key[i] ^ maskKey[i % maskKey.length];
+    }
+
+    const mac = createHmac('sha256', macKey).update(encryptedKey).digest();
+    return {
+      algorithm: 'ECIES-secp256k1',
+      ephemeralPublicKey: toHex(ephemeralPublicKey),
+      ciphertext: toHex(encryptedKey),
+      mac: toHex(mac)
+    };
+  },
+
+  unwrap(slot, privateKey) {
+    let sharedSecret: Uint8Array;
+    try {
+      sharedSecret = secp256k1SharedSecret(privateKey, fromHex(ensureHexPrefix(slot.ephemeralPublicKey)));
+    } catch {
+      return undefined;
+    }
+    const maskKey = deriveKey(sharedSecret, 'basemailer-mask', 32);
+    const macKey = deriveKey(sharedSecret, 'basemailer-mac', 32);
+
+    const encryptedKey = fromHex(slot.ciphertext);
+    const expectedMac = createHmac('sha256', macKey).update(encryptedKey).digest();
+    if (!expectedMac.equals(fromHex(slot.mac))) {
+      return undefined;
+    }
+
+    const symmetricKey = Buffer.alloc(encryptedKey.length);
+    for (let i = 0; i < encryptedKey.length; i += 1) {
+      symmetricKey[i] = encryptedKey[i] ^ maskKey[i % maskKey.length];
+    }
+    return symmetricKey;
+  }
+};
+
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export const ECIES_X25519: KeyWrapper = {
+  algorithm: 'ECIES-X25519',
+
+  wrap(key, recipientPublicKeyHex) {
+    const recipientPublicKey = fromHex(ensureHexPrefix(recipientPublicKeyHex));
+    const { privateKey, publicKey } = generateKeyPairSync('x25519');
+    const ephemeralPublicKey = rawX25519PublicKey(publicKey);
+    const sharedSecret = diffieHellman({ privateKey, publicKey: x25519PublicKey(recipientPublicKey) });
+
+    const wrapKey = x25519WrapKey(sharedSecret, ephemeralPublicKey, recipientPublicKey);
+    const { ciphertext, authTag } = CHACHA20_POLY1305.seal(wrapKey, Buffer.alloc(12), key);
+    return {
+      algorithm: 'ECIES-X25519',
+      ephemeralPublicKey: toHex(ephemeralPublicKey),
+      ciphertext: toHex(ciphertext),
+      mac: toHex(authTag)
+    };
+  },
+
+  unwrap(slot, privateKey) {
+    try {
+      const recipientPrivateKey = createPrivateKey({
+        key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(privateKey)]),
+        format: 'der',
+        type: 'pkcs8'
+      });
+      const ephemeralPublicKey = fromHex(ensureHexPrefix(slot.ephemeralPublicKey));
+      const sharedSecret = diffieHellman({
+        privateKey: recipientPrivateKey,
+        publicKey: x25519PublicKey(ephemeralPublicKey)
+      });
+      const wrapKey = x25519WrapKey(sharedSecret, ephemeralPublicKey, rawX25519PublicKey(createPublicKey(recipientPrivateKey)));
+      return CHACHA20_POLY1305.open(wrapKey, Buffer.alloc(12), fromHex(slot.ciphertext), fromHex(slot.mac));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+export const SECP256K1_AES_256_GCM: CipherSuite = {
+  id: 'secp256k1-aes256gcm',
+  content: AES_256_GCM,
+  key: ECIES_SECP256K1
+};
+
+export const X25519_XCHACHA20_POLY1305: CipherSuite = {
+  id: 'x25519-xchacha20poly1305',
+  content: XCHACHA20_POLY1305,
+  key: ECIES_X25519
+};
+
+export class CipherSuiteRegistry {
+  private readonly suites = new Map<string, CipherSuite>();
+
+  constructor(suites: CipherSuite[] = [SECP256K1_AES_256_GCM, X25519_XCHACHA20_POLY1305]) {
+    suites.forEach((suite) => this.register(suite));
+  }
+
+  register(suite: CipherSuite): void {
+    if (this.suites.has(suite.id)) {
+      throw new Error(`Cipher suite ${suite.id} is already registered`);
+    }
+    this.suites.set(suite.id, suite);
+  }
+
+  get(id: string): CipherSuite {
+    const suite = this.suites.get(id);
+    if (!suite) {
+      throw new Error(`Unknown cipher suite ${id}; registered suites: ${this.ids().join(', ')}`);
+    }
+    return suite;
+  }
+
+  ids(): string[] {
+    return Array.from(this.suites.keys());
+  }
+
+  contentCipher(algorithm: string): AeadCipher {
+    const suite = Array.from(this.suites.values()).find((candidate) => candidate.content.algorithm === algorithm);
+    if (!suite) {
+      throw new Error(`Unsupported content algorithm ${algorithm}`);
+    }
+    return suite.content;
+  }
+
+  keyWrapper(algorithm: string): KeyWrapper | undefined {
+    return Array.from(this.suites.values()).find((candidate) => candidate.key.algorithm === algorithm)?.key;
+  }
+}
+
+function nodeAead(algorithm: string, cipherName: CipherGCMTypes | 'chacha20-poly1305'): AeadCipher {
+  return {
+    algorithm,
+    nonceLength: 12,
+    seal(key, nonce, plaintext, aad) {
+      const cipher = createCipheriv(cipherName as CipherGCMTypes, key, nonce, { authTagLength: 16 });
+      if (aad) cipher.setAAD(aad);
+      const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      return { ciphertext, authTag: cipher.getAuthTag() };
+    },
+    open(key, nonce, ciphertext, authTag, aad) {
+      const decipher = createDecipheriv(cipherName as CipherGCMTypes, key, nonce, { authTagLength: 16 });
+      if (aad) decipher.setAAD(aad);
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    }
+  };
+}
+
+function secp256k1SharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  const secret = getSharedSecret(privateKey, publicKey, true);
+  return secret.slice(1); // drop format byte
+}
+
+function generatePrivateKey(): Uint8Array {
+  let key = randomBytes(32);
+  while (key.length === 0 || key.every((b) => b === 0)) {
+    key = randomBytes(32);
+  }
+  return key;
+}
+
+function x25519PublicKey(raw: Uint8Array): KeyObject {
+  return createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, Buffer.from(raw)]), format: 'der', type: 'spki' });
+}
+
+function rawX25519PublicKey(key: KeyObject): Buffer {
+  return key.export({ format: 'der', type: 'spki' }).subarray(X25519_SPKI_PREFIX.length);
+}
+
+function x25519WrapKey(sharedSecret: Buffer, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Buffer {
+  const salt = Buffer.concat([Buffer.from(ephemeralPublicKey), Buffer.from(recipientPublicKey)]);
+  return Buffer.from(deriveKey(sharedSecret, 'basemailer-x25519-wrap', 32, salt));
+}
+
+function ensureHexPrefix(value: string): string {
+  return value.startsWith('0x') ? value : `0x${value}`;
+}
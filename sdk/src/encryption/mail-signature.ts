@@ -0,0 +1,96 @@
+import { keccak256, toUtf8Bytes, verifyTypedData, type Signer, type TypedDataDomain, type TypedDataField } from 'ethers';
+import type { MailContent, MailSignature, SenderVerification } from '../types/index.js';
+
+export const MAIL_SIGNATURE_DOMAIN: TypedDataDomain = {
+  name: 'BaseMailer',
+  version: '1'
+};
+
+// The CID is derived from the ciphertext that carries this signature, so it cannot be signed here;
+// the content hash covers everything the recipient decrypts instead.
+export const MAIL_SIGNATURE_TYPES: Record<string, TypedDataField[]> = {
+  Mail: [
+    { name: 'from', type: 'string' },
+    { name: 'to', type: 'string' },
+    { name: 'cc', type: 'string[]' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' }
+  ]
+};
+
+export function hashMailContent(content: MailContent): string {
+  const { signature: _signature, bcc: _bcc, ...signed } = content;
+  return keccak256(toUtf8Bytes(JSON.stringify(canonicalize(signed))));
+}
+
+export async function signMailContent(content: MailContent, signer: Signer): Promise<MailContent> {
+  const timestamp = content.timestamp ?? Date.now();
+  const unsigned: MailContent = { ...content, timestamp, signature: undefined };
+  const contentHash = hashMailContent(unsigned);
+  const signature = await signer.signTypedData(MAIL_SIGNATURE_DOMAIN, MAIL_SIGNATURE_TYPES, toTypedValue(unsigned, contentHash));
+
+  return {
+    ...unsigned,
+    signature: {
+      scheme: 'EIP-712',
+      signer: await signer.getAddress(),
+      contentHash,
+      signature
+    }
+  };
+}
+
+export function verifyMailSender(content: MailContent, expectedSigner?: string): SenderVerification {
+  const signature: MailSignature | undefined = content.signature;
+  if (!signature) {
+    return { verified: false, expectedSigner, reason: 'unsigned' };
+  }
+
+  const contentHash = hashMailContent(content);
+  let recovered: string;
+  try {
+    recovered = verifyTypedData(MAIL_SIGNATURE_DOMAIN, MAIL_SIGNATURE_TYPES, toTypedValue(content, contentHash), signature.signature);
+  } catch {
+    return { verified: false, expectedSigner, reason: 'invalid-signature' };
+  }
+
+  if (contentHash !== signature.contentHash || !sameAddress(recovered, signature.signer)) {
+    return { verified: false, signer: recovered, expectedSigner, reason: 'invalid-signature' };
+  }
+
+  if (expectedSigner && !sameAddress(recovered, expectedSigner)) {
+    return { verified: false, signer: recovered, expectedSigner, reason: 'signer-mismatch' };
+  }
+
+  return { verified: true, signer: recovered, expectedSigner };
+}
+
+function toTypedValue(content: MailContent, contentHash: string): Record<string, unknown> {
+  return {
+    from: content.from,
+    to: content.to,
+    cc: content.cc ?? [],
+    contentHash,
+    timestamp: BigInt(content.timestamp ?? 0)
+  };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
@@ -1,10 +1,38 @@
 export * from './client/BaseMailerClient.js';
+export * from './client/MailEventIndex.js';
+export * from './client/MailboxSync.js';
+export * from './client/MailSubscription.js';
+export * from './client/mailbox-store.js';
 export * from './encryption/EncryptionManager.js';
+export * from './encryption/mail-signature.js';
+export * from './encryption/cipher-suites.js';
+export * from './keys/messaging-keys.js';
+export * from './keys/KeyDirectory.js';
+export * from './keys/Keystore.js';
+export * from './storage/StorageProvider.js';
+export * from './storage/compression.js';
 export * from './storage/IPFSClient.js';
+export * from './storage/PinningService.js';
+export * from './storage/VerifiedRetriever.js';
+export * from './storage/LocalStorageProvider.js';
+export * from './storage/S3StorageProvider.js';
+export * from './storage/provider-factory.js';
+export * from './storage/PackageCache.js';
+export * from './storage/CachedStorageProvider.js';
 export * from './zkproof/ProofGenerator.js';
+export * from './zkproof/email-ownership.js';
+export * from './zkproof/ProvingPool.js';
+export * from './zkproof/circuit-manifest.js';
+export * from './zkproof/proof-systems.js';
 export * from './backend/BackendAPI.js';
+export * from './backend/relay-authorization.js';
 export * from './types/index.js';
 export * from './utils/cid-store.js';
+export { bytes32ToCid, cidToBytes32, isReconstructibleCid, legacyCidToBytes32 } from './utils/bytes.js';
 export * from './service/EmailService.js';
 export * from './service/MailStore.js';
+export * from './service/MessagingKeyStore.js';
+export * from './service/RelayAuthorizationStore.js';
+export * from './service/JsonlStore.js';
+export * from './service/SqliteStore.js';
 export * from './service/types.js';
@@ -0,0 +1,63 @@
+import type { BackendAPI } from '../backend/BackendAPI.js';
+import type { RecipientResolutionResult, RecipientResolver } from '../types/config.js';
+import { selectActiveMessagingKey, type MessagingKeyAnnouncement } from './messaging-keys.js';
+
+export interface KeyDirectoryOptions {
+  backend: BackendAPI;
+  cacheTtlMs?: number;
+}
+
+interface CachedKey {
+  announcement: MessagingKeyAnnouncement;
+  expiresAt: number;
+}
+
+export class KeyDirectory {
+  private readonly backend: BackendAPI;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, CachedKey>();
+
+  constructor(options: KeyDirectoryOptions) {
+    this.backend = options.backend;
+    this.cacheTtlMs = options.cacheTtlMs ?? 5 * 60 * 1000;
+  }
+
+  async lookup(owner: string): Promise<MessagingKeyAnnouncement> {
+    const now = Date.now();
+    const cacheKey = owner.toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > now) {
+      return cached.announcement;
+    }
+
+    // The service is untrusted: every record is re-verified against the registry owner before use.
+    const announcements = await this.backend.getMessagingKeys(owner);
+    const announcement = selectActiveMessagingKey(announcements, owner, now);
+    if (!announcement) {
+      this.cache.delete(cacheKey);
+      throw new Error(`No valid messaging key is published for ${owner}`);
+    }
+
+    const ttlExpiry = now + this.cacheTtlMs;
+    this.cache.set(cacheKey, {
+      announcement,
+      expiresAt: announcement.expiresAt !== undefined ? Math.min(ttlExpiry, announcement.expiresAt) : ttlExpiry
+    });
+    return announcement;
+  }
+
+  invalidate(owner?: string): void {
+    if (owner) {
+      this.cache.delete(owner.toLowerCase());
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  resolver(): RecipientResolver {
+    return async (email: string, owner: string): Promise<RecipientResolutionResult> => {
+      const announcement = await this.lookup(owner);
+      return { email, owner, publicKey: announcement.publicKey };
+    };
+  }
+}
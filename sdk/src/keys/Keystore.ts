@@ -0,0 +1,157 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getPublicKey, utils } from '@noble/secp256k1';
+import { keccak256 } from 'ethers';
+import { fromHex, toHex } from '../utils/bytes.js';
+
+// Mirrors the Ethereum v3 keystore layout; `publicKey` replaces `address` because messaging keys never hold funds.
+export interface KeystoreEntry {
+  version: 3;
+  id: string;
+  label?: string;
+  publicKey: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt';
+    kdfparams: { dklen: number; n: number; r: number; p: number; salt: string };
+    mac: string;
+  };
+}
+
+export interface KeystoreKdfOptions {
+  n?: number;
+  r?: number;
+  p?: number;
+}
+
+export const DEFAULT_KEYSTORE_DIRECTORY = path.join(os.homedir(), '.basemailer', 'keystore');
+
+export async function encryptKeystoreEntry(
+  privateKey: string,
+  password: string,
+  options: KeystoreKdfOptions & { label?: string } = {}
+): Promise<KeystoreEntry> {
+  const key = normalizePrivateKey(privateKey);
+  const kdfparams = {
+    dklen: 32,
+    n: options.n ?? 1 << 17,
+    r: options.r ?? 8,
+    p: options.p ?? 1,
+    salt: randomBytes(32).toString('hex')
+  };
+  const derived = await deriveKeystoreKey(password, kdfparams);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-128-ctr', derived.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    ...(options.label && { label: options.label }),
+    publicKey: toHex(getPublicKey(key, true)),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams,
+      mac: keystoreMac(derived, ciphertext)
+    }
+  };
+}
+
+export async function decryptKeystoreEntry(entry: KeystoreEntry, password: string): Promise<string> {
+  if (entry.version !== 3 || entry.crypto.kdf !== 'scrypt' || entry.crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore entry ${entry.id}`);
+  }
+
+  const derived = await deriveKeystoreKey(password, entry.crypto.kdfparams);
+  const ciphertext = Buffer.from(entry.crypto.ciphertext, 'hex');
+  const mac = Buffer.from(keystoreMac(derived, ciphertext), 'hex');
+  const expectedMac = Buffer.from(entry.crypto.mac, 'hex');
+  if (mac.length !== expectedMac.length || !timingSafeEqual(mac, expectedMac)) {
+    throw new Error('Incorrect keystore password');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derived.subarray(0, 16), Buffer.from(entry.crypto.cipherparams.iv, 'hex'));
+  return toHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+export class FileKeystore {
+  constructor(
+    private readonly directory: string = DEFAULT_KEYSTORE_DIRECTORY,
+    private readonly kdf: KeystoreKdfOptions = {}
+  ) {}
+
+  async list(): Promise<KeystoreEntry[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map(async (file) => JSON.parse(await readFile(path.join(this.directory, file), 'utf-8')) as KeystoreEntry)
+    );
+    return entries.sort((a, b) => (a.label ?? a.id).localeCompare(b.label ?? b.id));
+  }
+
+  async get(idOrLabel: string): Promise<KeystoreEntry> {
+    const matches = (await this.list()).filter((entry) => entry.id === idOrLabel || entry.label === idOrLabel);
+    if (matches.length === 0) {
+      throw new Error(`No keystore entry named ${idOrLabel} in ${this.directory}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Keystore label ${idOrLabel} is ambiguous; use the entry id`);
+    }
+    return matches[0];
+  }
+
+  async generate(password: string, label?: string): Promise<KeystoreEntry> {
+    return this.import(toHex(utils.randomSecretKey()), password, label);
+  }
+
+  async import(privateKey: string, password: string, label?: string): Promise<KeystoreEntry> {
+    if (label && (await this.list()).some((entry) => entry.label === label)) {
+      throw new Error(`Keystore label ${label} is already in use`);
+    }
+    const entry = await encryptKeystoreEntry(privateKey, password, { ...this.kdf, label });
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await writeFile(path.join(this.directory, `${entry.id}.json`), JSON.stringify(entry, null, 2), { mode: 0o600 });
+    return entry;
+  }
+
+  async unlock(idOrLabel: string, password: string): Promise<string> {
+    return decryptKeystoreEntry(await this.get(idOrLabel), password);
+  }
+}
+
+function normalizePrivateKey(hex: string): Buffer {
+  const key = fromHex(hex.startsWith('0x') ? hex : `0x${hex}`);
+  if (key.length !== 32 || !utils.isValidSecretKey(key)) {
+    throw new Error('Private key must be a valid 32 byte secp256k1 key');
+  }
+  return key;
+}
+
+function keystoreMac(derived: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derived.subarray(16, 32), ciphertext])).slice(2);
+}
+
+function deriveKeystoreKey(password: string, params: KeystoreEntry['crypto']['kdfparams']): Promise<Buffer> {
+  const options: ScryptOptions = { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), Buffer.from(params.salt, 'hex'), params.dklen, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
@@ -0,0 +1,114 @@
+import { getPublicKey, utils } from '@noble/secp256k1';
+import { Signature, getAddress, verifyMessage, type Signer } from 'ethers';
+import { deriveKey } from '../utils/hkdf.js';
+import { fromHex, toHex } from '../utils/bytes.js';
+
+// Changing this message changes every derived key; bump the version suffix instead of editing it.
+export const MESSAGING_KEY_DERIVATION_MESSAGE = [
+  'BaseMailer messaging key derivation v1',
+  '',
+  'Sign this message to unlock your BaseMailer encryption key.',
+  'It does not send a transaction or cost any gas.',
+  'Only sign it on BaseMailer applications you trust.'
+].join('\n');
+
+export interface MessagingKeyPair {
+  address: string;
+  privateKey: string; // 32 byte hex string
+  publicKey: string; // compressed secp256k1 hex string
+}
+
+export interface MessagingKeyAnnouncement {
+  address: string;
+  publicKey: string;
+  issuedAt: number; // the key is valid from this moment (ms since epoch)
+  expiresAt?: number;
+  signature: string;
+}
+
+export interface MessagingKeyAnnouncementOptions {
+  issuedAt?: number;
+  expiresAt?: number;
+}
+
+export async function deriveMessagingKeyPair(signer: Signer): Promise<MessagingKeyPair> {
+  const address = getAddress(await signer.getAddress());
+  const signature = Signature.from(await signer.signMessage(MESSAGING_KEY_DERIVATION_MESSAGE));
+  // r || s only: v is not guaranteed to be encoded the same way by every wallet.
+  const seed = Buffer.concat([fromHex(signature.r), fromHex(signature.s)]);
+
+  for (let counter = 0; ; counter += 1) {
+    const candidate = deriveKey(seed, `basemailer-messaging-key-${counter}`, 32, fromHex(address));
+    if (utils.isValidSecretKey(candidate)) {
+      return {
+        address,
+        privateKey: toHex(candidate),
+        publicKey: toHex(getPublicKey(candidate, true))
+      };
+    }
+  }
+}
+
+export function messagingKeyAnnouncementMessage(
+  address: string,
+  publicKey: string,
+  issuedAt: number,
+  expiresAt?: number
+): string {
+  return [
+    'BaseMailer messaging public key v1',
+    `Address: ${getAddress(address)}`,
+    `Public key: ${publicKey.toLowerCase()}`,
+    `Issued at: ${issuedAt}`,
+    `Expires at: ${expiresAt ?? 'never'}`
+  ].join('\n');
+}
+
+export async function createMessagingKeyAnnouncement(
+  signer: Signer,
+  publicKey: string,
+  options: MessagingKeyAnnouncementOptions = {}
+): Promise<MessagingKeyAnnouncement> {
+  const address = getAddress(await signer.getAddress());
+  const issuedAt = options.issuedAt ?? Date.now();
+  if (options.expiresAt !== undefined && options.expiresAt <= issuedAt) {
+    throw new Error('expiresAt must be later than issuedAt');
+  }
+  const message = messagingKeyAnnouncementMessage(address, publicKey, issuedAt, options.expiresAt);
+  const signature = await signer.signMessage(message);
+  return {
+    address,
+    publicKey: publicKey.toLowerCase(),
+    issuedAt,
+    ...(options.expiresAt !== undefined && { expiresAt: options.expiresAt }),
+    signature
+  };
+}
+
+// Picks the newest correctly signed key that is valid at `at`; older keys remain usable for decrypting old mail.
+export function selectActiveMessagingKey(
+  announcements: MessagingKeyAnnouncement[],
+  owner: string,
+  at = Date.now()
+): MessagingKeyAnnouncement | undefined {
+  return announcements
+    .filter((announcement) => verifyMessagingKeyAnnouncement(announcement, owner))
+    .filter((announcement) => announcement.issuedAt <= at && (announcement.expiresAt === undefined || at < announcement.expiresAt))
+    .sort((a, b) => b.issuedAt - a.issuedAt)[0];
+}
+
+export function verifyMessagingKeyAnnouncement(announcement: MessagingKeyAnnouncement, expectedAddress?: string): boolean {
+  try {
+    const message = messagingKeyAnnouncementMessage(
+      announcement.address,
+      announcement.publicKey,
+      announcement.issuedAt,
+      announcement.expiresAt
+    );
+    const recovered = verifyMessage(message, announcement.signature);
+    if (recovered !== getAddress(announcement.address)) return false;
+    return !expectedAddress || recovered === getAddress(expectedAddress);
+  } catch {
+    return false;
+  }
+}
@@ -1,20 +1,50 @@
 import express, { type Express, type Request, type Response } from 'express';
-import { Contract, JsonRpcProvider, Wallet, keccak256, toUtf8Bytes, AbiCoder, type EventLog, type Log } from 'ethers';
-import { groth16 } from 'snarkjs';
+import { Contract, JsonRpcProvider, Wallet, type EventLog, type Log } from 'ethers';
+import * as snarkjs from 'snarkjs';
 import { readFile } from 'fs/promises';
+import path from 'path';
 import type { Server } from 'http';
+import type { AddressInfo } from 'net';
 import { IPFSClient } from '../storage/IPFSClient.js';
+import { createStorageProvider } from '../storage/provider-factory.js';
+import type { StorageProvider } from '../storage/StorageProvider.js';
+import { CachedStorageProvider } from '../storage/CachedStorageProvider.js';
+import { createPackageCaches } from '../storage/PackageCache.js';
 import { BaseMailerRegistryABI, NameBasedMailerABI } from '../contracts/abi.js';
 import { cidToBytes32 } from '../utils/bytes.js';
+import { ConsoleLogger, type Logger } from '../utils/logger.js';
+import { toMailSentEvent, type MailSentEvent } from '../client/MailEventIndex.js';
+import { EMAIL_OWNERSHIP_PUBLIC_SIGNALS, emailOwnershipPublicSignals } from '../zkproof/email-ownership.js';
+import { assertVerificationKeySystem, unpackProof } from '../zkproof/proof-systems.js';
+import { checkRelayAuthorization, relayAuthorizationDomain } from '../backend/relay-authorization.js';
+import { readCircuitManifest, readVerificationKey } from '../zkproof/circuit-manifest.js';
 import { InMemoryCidStore, type CidStore } from '../utils/cid-store.js';
 import type { EmailServiceConfig, StoredMail } from './types.js';
 import { InMemoryMailStore, type MailStore } from './MailStore.js';
-
-const abiCoder = new AbiCoder();
+import { InMemoryMessagingKeyStore, type MessagingKeyStore } from './MessagingKeyStore.js';
+import { InMemoryRelayAuthorizationStore, type RelayAuthorizationStore } from './RelayAuthorizationStore.js';
+import { JsonlCidStore, JsonlMailStore, JsonlMessagingKeyStore, JsonlRelayAuthorizationStore } from './JsonlStore.js';
+import {
+  SqliteCidStore,
+  SqliteMailStore,
+  SqliteMessagingKeyStore,
+  SqliteRelayAuthorizationStore,
+  openSqliteDatabase,
+  type SqliteDatabase
+} from './SqliteStore.js';
+import {
+  selectActiveMessagingKey,
+  verifyMessagingKeyAnnouncement,
+  type MessagingKeyAnnouncement
+} from '../keys/messaging-keys.js';
 
 interface ServiceOptions {
+  provider?: JsonRpcProvider; // otherwise one is opened on config.rpcUrl
   store?: MailStore;
   cidStore?: CidStore;
+  messagingKeyStore?: MessagingKeyStore;
+  relayAuthorizationStore?: RelayAuthorizationStore;
+  logger?: Logger;
 }
 
 export class EmailService {
@@ -22,39 +52,82 @@ export class EmailService {
   private readonly wallet: Wallet;
   private readonly registry: Contract;
   private readonly mailer: Contract;
-  private readonly ipfs: IPFSClient;
-  private readonly store: MailStore;
-  private readonly cidStore: CidStore;
-  private readonly port: number;
+  private readonly storage: StorageProvider;
+  private store: MailStore;
+  private cidStore: CidStore;
+  private messagingKeyStore: MessagingKeyStore;
+  private relayAuthorizationStore: RelayAuthorizationStore;
+  private database?: SqliteDatabase;
+  private listenPort: number;
   private readonly app: Express;
   private server?: Server;
   private verificationKey?: any;
+  private readonly logger: Logger;
+  // recipient:contentCID of deliveries being submitted, so concurrent copies of one request cannot both pass
+  private readonly deliveriesInFlight = new Set<string>();
+  // every MailSent log at or below this block is in the store
+  private indexedBlock = -1;
+  private latestBlock = -1;
+  private indexing?: Promise<void>;
 
-  constructor(private readonly config: EmailServiceConfig, options: ServiceOptions = {}) {
-    this.provider = new JsonRpcProvider(config.rpcUrl);
+  constructor(
+    private readonly config: EmailServiceConfig,
+    private readonly options: ServiceOptions = {}
+  ) {
+    this.provider = options.provider ?? new JsonRpcProvider(config.rpcUrl);
     this.wallet = new Wallet(config.signerPrivateKey, this.provider);
     this.registry = new Contract(config.registryAddress, BaseMailerRegistryABI, this.wallet);
     this.mailer = new Contract(config.mailerAddress, NameBasedMailerABI, this.wallet);
-    this.ipfs = new IPFSClient(config.ipfs);
-    this.store = options.store ?? new InMemoryMailStore();
-    this.cidStore = options.cidStore ?? new InMemoryCidStore();
-    this.port = config.port ?? 3000;
+    if (!config.storageProvider && !config.ipfs) {
+      throw new Error('EmailService needs either storageProvider or ipfs configured');
+    }
+    const storage = config.storageProvider ? createStorageProvider(config.storageProvider) : new IPFSClient(config.ipfs);
+    this.storage = config.packageCache ? new CachedStorageProvider(storage, createPackageCaches(config.packageCache)) : storage;
+    const jsonlDirectory = config.persistence?.driver === 'jsonl' ? path.resolve(config.persistence.path ?? 'data') : undefined;
+    this.store = options.store ?? (jsonlDirectory ? new JsonlMailStore(path.join(jsonlDirectory, 'mails.jsonl')) : new InMemoryMailStore());
+    this.cidStore = options.cidStore ?? (jsonlDirectory ? new JsonlCidStore(path.join(jsonlDirectory, 'cids.jsonl')) : new InMemoryCidStore());
+    this.messagingKeyStore =
+      options.messagingKeyStore ??
+      (jsonlDirectory ? new JsonlMessagingKeyStore(path.join(jsonlDirectory, 'keys.jsonl')) : new InMemoryMessagingKeyStore());
+    this.relayAuthorizationStore =
+      options.relayAuthorizationStore ??
+      (jsonlDirectory
+        ? new JsonlRelayAuthorizationStore(path.join(jsonlDirectory, 'authorizations.jsonl'))
+        : new InMemoryRelayAuthorizationStore());
+    this.logger = options.logger ?? new ConsoleLogger('info');
+    this.listenPort = config.port ?? 3000;
     this.app = express();
     this.app.use(express.json({ limit: '6mb' }));
     this.registerRoutes();
   }
 
   async start(): Promise<void> {
-    if (this.config.verificationKeyPath) {
+    if (this.config.persistence?.driver === 'sqlite' && !this.database) {
+      this.database = await openSqliteDatabase(path.resolve(this.config.persistence.path ?? 'data/basemailer.sqlite'));
+      if (!this.options.store) this.store = new SqliteMailStore(this.database);
+      if (!this.options.cidStore) this.cidStore = new SqliteCidStore(this.database);
+      if (!this.options.messagingKeyStore) this.messagingKeyStore = new SqliteMessagingKeyStore(this.database);
+      if (!this.options.relayAuthorizationStore) this.relayAuthorizationStore = new SqliteRelayAuthorizationStore(this.database);
+    }
+
+    if (this.config.circuitManifestPath) {
+      // refuses to start on a tampered key or one built for a different set of public signals
+      const circuit = await readCircuitManifest(this.config.circuitManifestPath);
+      this.verificationKey = await readVerificationKey(circuit, EMAIL_OWNERSHIP_PUBLIC_SIGNALS.length);
+    } else if (this.config.verificationKeyPath) {
       const raw = await readFile(this.config.verificationKeyPath, 'utf-8');
       this.verificationKey = JSON.parse(raw);
     }
+    if (this.verificationKey) {
+      assertVerificationKeySystem(this.verificationKey, this.config.proofSystem ?? 'groth16');
+    }
 
     await this.bootstrapEvents();
 
     await new Promise<void>((resolve) => {
-      this.server = this.app.listen(this.port, () => resolve());
+      this.server = this.app.listen(this.listenPort, () => resolve());
     });
+    this.listenPort = (this.server!.address() as AddressInfo).port;
   }
 
   async stop(): Promise<void> {
@@ -65,8 +138,17 @@ export class EmailService {
           else resolve();
         });
       });
+      this.server = undefined;
     }
-    this.mailer.removeAllListeners('MailSent');
+    await this.provider.off('block', this.onBlock);
+    await this.indexing;
+    this.database?.close();
+    this.database = undefined;
+  }
+
+  // the bound port once started, which differs from config.port when that is 0
+  get port(): number {
+    return this.listenPort;
   }
 
   get expressApp(): Express {
@@ -76,10 +158,14 @@ export class EmailService {
   private registerRoutes(): void {
     this.app.post('/api/send-mail', async (req: Request, res: Response) => {
       try {
-        const { proof, cid, senderEmail, recipientEmail } = req.body ?? {};
+        const { proof, cid, senderEmail, recipientEmail, authorization } = req.body ?? {};
         if (!proof || !cid || !senderEmail || !recipientEmail) {
           return res.status(400).json({ error: 'Missing required fields' });
         }
+        // without one the relay would submit with the sender's proof on anyone's say-so
+        if (!authorization && this.config.requireRelayAuthorization !== false) {
+          return res.status(401).json({ error: 'Relay authorization required' });
+        }
 
         const owner = await this.registry.resolveEmail(senderEmail);
         if (owner === '0x0000000000000000000000000000000000000000') {
@@ -87,34 +173,63 @@ export class EmailService {
         }
 
         const contentCID = cidToBytes32(cid);
-        await this.cidStore.set(contentCID, cid);
-
-        if (this.verificationKey) {
-          const isValid = await this.verifyProof(proof, owner, senderEmail, contentCID);
-          if (!isValid) {
-            return res.status(400).json({ error: 'Invalid proof' });
+        if (authorization) {
+          const { chainId } = await this.provider.getNetwork();
+          const domain = relayAuthorizationDomain(chainId, this.config.mailerAddress);
+          const problem = checkRelayAuthorization(authorization, domain, { proof, contentCID, senderEmail }, recipientEmail, owner);
+          if (problem) {
+            return res.status(401).json({ error: `Invalid relay authorization: ${problem}` });
           }
         }
+        // A package goes to each recipient once, so a repeat can only be a replayed request. This also covers a
+        // second authorization with a later deadline. The claim is taken before any await, so it is atomic.
+        const delivery = `${recipientEmail}:${contentCID.toLowerCase()}`;
+        if (this.deliveriesInFlight.has(delivery)) {
+          return res.status(409).json({ error: 'Mail already delivered to this recipient' });
+        }
+        this.deliveriesInFlight.add(delivery);
+        try {
+          // matched on the on-chain hash; a mail indexed from events may not carry the original CID string
+          const inbox = await this.store.getInbox(recipientEmail);
+          if (inbox.some((mail) => mail.contentHash.toLowerCase() === contentCID.toLowerCase())) {
+            return res.status(409).json({ error: 'Mail already delivered to this recipient' });
+          }
+          await this.cidStore.set(contentCID, cid);
+
+          if (this.verificationKey) {
+            const isValid = await this.verifyProof(proof, owner, senderEmail, contentCID);
+            if (!isValid) {
+              return res.status(400).json({ error: 'Invalid proof' });
+            }
+          }
+
+          const pins = await this.storage.pin(cid);
 
-        await this.ipfs.pin(cid);
-
-        const tx = await this.mailer.sendMail(proof, contentCID, senderEmail, recipientEmail);
-        const receipt = await tx.wait();
-        const mailId = this.extractMailId(receipt?.logs) ?? '0';
-
-        const record: StoredMail = {
-          mailId,
-          cid,
-          contentHash: contentCID,
-          senderEmail,
-          recipientEmail,
-          timestamp: Date.now(),
-          blockNumber: receipt?.blockNumber,
-          txHash: tx.hash
-        };
-        await this.store.save(record);
-
-        return res.json({ success: true, mailId, txHash: tx.hash, timestamp: record.timestamp });
+          // spent for good before submitting: even if the transaction fails, it may still have been mined
+          if (authorization && !(await this.relayAuthorizationStore.claim(authorization.signature, recipientEmail))) {
+            return res.status(409).json({ error: 'Relay authorization already used for this recipient' });
+          }
+          const tx = await this.mailer.sendMail(proof, contentCID, senderEmail, recipientEmail);
+          const receipt = await tx.wait();
+          const mailId = this.extractMailId(receipt?.logs) ?? '0';
+
+          const record: StoredMail = {
+            mailId,
+            cid,
+            contentHash: contentCID,
+            senderEmail,
+            recipientEmail,
+            timestamp: Date.now(),
+            blockNumber: receipt?.blockNumber,
+            txHash: tx.hash
+          };
+          // saved before the claim is released, so a later copy is caught by the inbox check
+          await this.store.save(record);
+
+          return res.json({ success: true, mailId, txHash: tx.hash, timestamp: record.timestamp, pins });
+        } finally {
+          this.deliveriesInFlight.delete(delivery);
+        }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return res.status(500).json({ error: message });
@@ -122,8 +237,20 @@ export class EmailService {
     });
 
     this.app.get('/api/inbox/:email', async (req: Request, res: Response) => {
+      // read first: blocks indexed while the inbox loads are not covered by it
+      const indexedTo = this.indexedBlock;
       const inbox = await this.store.getInbox(req.params.email);
-      return res.json({ inbox });
+      if (req.query.fromBlock === undefined) {
+        return res.json({ inbox, indexedTo });
+      }
+      const fromBlock = Number(req.query.fromBlock);
+      if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+        return res.status(400).json({ error: 'fromBlock must be a non-negative integer' });
+      }
+      return res.json({
+        inbox: inbox.filter((mail) => mail.blockNumber === undefined || mail.blockNumber >= fromBlock),
+        indexedTo
+      });
     });
 
     this.app.get('/api/sentbox/:email', async (req: Request, res: Response) => {
@@ -136,66 +263,115 @@ export class EmailService {
       if (!mail) {
         return res.status(404).json({ error: 'Mail not found' });
       }
-      return res.json({ mail });
+      if (req.query.include !== 'package' || !mail.cid) {
+        return res.json({ mail });
+      }
+      try {
+        return res.json({ mail, package: await this.storage.retrieve(mail.cid) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return res.status(502).json({ error: message });
+      }
+    });
+
+    // Packages are public ciphertext addressed by CID, so serving them leaks nothing the network does not already have.
+    this.app.get('/api/packages/:cid', async (req: Request, res: Response) => {
+      try {
+        return res.json({ package: await this.storage.retrieve(req.params.cid) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return res.status(502).json({ error: message });
+      }
+    });
+
+    this.app.post('/api/keys', async (req: Request, res: Response) => {
+      const announcement = req.body as MessagingKeyAnnouncement | undefined;
+      if (!announcement?.address || !announcement.publicKey || !announcement.signature || !announcement.issuedAt) {
+        return res.status(400).json({ error: 'Missing required fields' });
+      }
+      if (!verifyMessagingKeyAnnouncement(announcement)) {
+        return res.status(400).json({ error: 'Invalid key announcement signature' });
+      }
+
+      const history = await this.messagingKeyStore.list(announcement.address);
+      const latest = history[history.length - 1];
+      if (latest && latest.issuedAt >= announcement.issuedAt) {
+        return res.status(409).json({ error: 'A newer key is already published for this address' });
+      }
+
+      await this.messagingKeyStore.save(announcement);
+      return res.json({ success: true });
+    });
+
+    this.app.get('/api/keys/:address', async (req: Request, res: Response) => {
+      const keys = await this.messagingKeyStore.list(req.params.address);
+      const key = selectActiveMessagingKey(keys, req.params.address);
+      if (!key) {
+        return res.status(404).json({ error: 'Key not found' });
+      }
+      return res.json({ key, keys });
     });
 
     this.app.get('/health', async (_req: Request, res: Response) => {
       const network = await this.provider.getNetwork();
-      return res.json({ status: 'ok', chainId: Number(network.chainId), port: this.port });
+      return res.json({ status: 'ok', chainId: Number(network.chainId), port: this.listenPort });
     });
   }
 
   private async bootstrapEvents(): Promise<void> {
-    const startBlock = this.config.eventStartBlock ?? (await this.provider.getBlockNumber());
     const current = await this.provider.getBlockNumber();
-    if (current >= startBlock) {
-      const events = (await this.mailer.queryFilter(this.mailer.filters.MailSent(), startBlock, current)) as (EventLog | Log)[];
-      for (const event of events) {
-        if (!('args' in event) || !event.args) continue;
-        const args = event.args as unknown as {
-          mailId: bigint;
-          contentCID: string;
-          senderEmail: string;
-          recipientEmail: string;
-          timestamp: bigint;
-        };
-        await this.persistEvent(
-          args.mailId.toString(),
-          args.contentCID,
-          args.senderEmail,
-          args.recipientEmail,
-          Number(args.timestamp),
-          event.blockNumber,
-          event.transactionHash
-        );
+    this.indexedBlock = (this.config.eventStartBlock ?? current + 1) - 1;
+    await this.indexTo(current);
+    // indexed block by block rather than from a MailSent listener, so the service can tell clients how far it got
+    await this.provider.on('block', this.onBlock);
+  }
+
+  private readonly onBlock = (blockNumber: number): void => {
+    this.latestBlock = Math.max(this.latestBlock, blockNumber);
+    // a running pass picks up blocks that arrive meanwhile
+    if (this.indexing) return;
+    this.indexing = (async () => {
+      while (this.indexedBlock < this.latestBlock) {
+        await this.indexTo(this.latestBlock);
       }
-    }
+    })()
+      // a failed range stays unindexed and is retried on the next block
+      .catch((error) =>
+        this.logger.error('Indexing MailSent events failed', { from: this.indexedBlock + 1, to: this.latestBlock, error })
+      )
+      .finally(() => {
+        this.indexing = undefined;
+      });
+  };
 
-    this.mailer.on('MailSent', async (mailId, recipientEmail, senderEmail, contentCID, timestamp, event) => {
-      await this.persistEvent(mailId.toString(), contentCID, senderEmail, recipientEmail, Number(timestamp), event.blockNumber, event.transactionHash);
-    });
+  private async indexTo(to: number): Promise<void> {
+    if (to <= this.indexedBlock) return;
+    const logs = (await this.mailer.queryFilter(this.mailer.filters.MailSent(), this.indexedBlock + 1, to)) as (EventLog | Log)[];
+    for (const log of logs) {
+      const event = toMailSentEvent(log);
+      if (event) await this.persistEvent(event);
+    }
+    this.indexedBlock = to;
   }
 
-  private async persistEvent(
-    mailId: string | undefined,
-    contentCID: string | undefined,
-    senderEmail: string,
-    recipientEmail: string,
-    timestamp: number,
-    blockNumber?: number,
-    txHash?: string
-  ): Promise<void> {
-    if (!mailId || !contentCID) return;
-    const cid = (await this.cidStore.get(contentCID)) ?? contentCID;
+  private async persistEvent(event: MailSentEvent): Promise<void> {
+    const mailId = event.mailId.toString();
+    // mail this relay submitted is already stored, with the CID the sender gave it
+    if (await this.store.get(mailId)) return;
+    // the log only carries hashes of the indexed emails, so the addresses come from the view
+    const mail = await this.mailer.getMail(event.mailId);
+    // A hash with no mapping may be a digest or a legacy keccak256 of the CID string, and nothing here tells them
+    // apart, so no CID is made up for it. Clients can still try rebuilding one from contentHash.
+    const cid = await this.cidStore.get(event.contentCID);
     const record: StoredMail = {
       mailId,
-      cid,
-      contentHash: contentCID,
-      senderEmail,
-      recipientEmail,
-      timestamp,
-      blockNumber,
-      txHash
+      ...(cid && { cid }),
+      contentHash: event.contentCID,
+      senderEmail: mail.senderEmail,
+      recipientEmail: mail.recipientEmail,
+      timestamp: Number(event.timestamp),
+      blockNumber: event.blockNumber,
+      txHash: event.txHash
     };
     await this.store.save(record);
   }
@@ -220,22 +396,8 @@ export class EmailService {
     contentCID: string
   ): Promise<boolean> {
     if (!this.verificationKey) return true;
-    const decoded = this.decodeProof(encodedProof);
-    const publicSignals = [
-      BigInt(senderAddress).toString(),
-      BigInt(contentCID).toString(),
-      BigInt(keccak256(toUtf8Bytes(senderEmail))).toString()
-    ];
-    return groth16.verify(this.verificationKey, publicSignals, decoded);
-  }
-
-  private decodeProof(encoded: string): { pi_a: string[]; pi_b: string[][]; pi_c: string[] } {
-    const [piA, piB, piC] = abiCoder.decode(['uint256[2]', 'uint256[2][2]', 'uint256[2]'], encoded);
-    const normalize = (value: any) => (typeof value === 'bigint' ? value.toString() : value);
-    return {
-      pi_a: piA.map(normalize),
-      pi_b: piB.map((row: any[]) => row.map(normalize)),
-      pi_c: piC.map(normalize)
-    };
+    const publicSignals = emailOwnershipPublicSignals({ senderAddress, senderEmail, contentCID });
+    const system = this.config.proofSystem ?? 'groth16';
+    return snarkjs[system].verify(this.verificationKey, publicSignals, unpackProof(system, encodedProof));
   }
 }
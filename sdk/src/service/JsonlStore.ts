@@ -0,0 +1,171 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import type { CidStore } from '../utils/cid-store.js';
+import type { MailStore } from './MailStore.js';
+import type { MessagingKeyStore } from './MessagingKeyStore.js';
+import { relayAuthorizationKey, type RelayAuthorizationStore } from './RelayAuthorizationStore.js';
+import type { MessagingKeyAnnouncement } from '../keys/messaging-keys.js';
+import type { StoredMail } from './types.js';
+
+// Append-only JSON-lines log replayed into memory on first use; later lines win, so updates never rewrite the file.
+class JsonlLog<T> {
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly apply: (entry: T) => void
+  ) {}
+
+  async ready(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  async append(entry: T): Promise<void> {
+    await this.ready();
+    this.apply(entry);
+    const write = this.writes.then(() => appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8'));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async load(): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as T);
+      } catch {
+        // a torn final line from a crash mid-append is skipped; everything before it is intact
+      }
+    }
+  }
+}
+
+export class JsonlMailStore implements MailStore {
+  private readonly mails = new Map<string, StoredMail>();
+  private readonly byRecipient = new Map<string, Set<string>>();
+  private readonly bySender = new Map<string, Set<string>>();
+  private readonly log: JsonlLog<StoredMail>;
+
+  constructor(filePath: string) {
+    this.log = new JsonlLog<StoredMail>(filePath, (mail) => this.index(mail));
+  }
+
+  async save(mail: StoredMail): Promise<void> {
+    const existing = await this.get(mail.mailId);
+    // event replay on restart re-saves every mail; skip identical records so the log does not grow each boot
+    if (existing && JSON.stringify(existing) === JSON.stringify(mail)) return;
+    await this.log.append(mail);
+  }
+
+  async get(mailId: string): Promise<StoredMail | undefined> {
+    await this.log.ready();
+    return this.mails.get(mailId);
+  }
+
+  async getInbox(email: string): Promise<StoredMail[]> {
+    await this.log.ready();
+    return this.lookup(this.byRecipient, email);
+  }
+
+  async getSentbox(email: string): Promise<StoredMail[]> {
+    await this.log.ready();
+    return this.lookup(this.bySender, email);
+  }
+
+  private index(mail: StoredMail): void {
+    const previous = this.mails.get(mail.mailId);
+    if (previous) {
+      this.byRecipient.get(previous.recipientEmail)?.delete(mail.mailId);
+      this.bySender.get(previous.senderEmail)?.delete(mail.mailId);
+    }
+    this.mails.set(mail.mailId, mail);
+    this.addToIndex(this.byRecipient, mail.recipientEmail, mail.mailId);
+    this.addToIndex(this.bySender, mail.senderEmail, mail.mailId);
+  }
+
+  private addToIndex(index: Map<string, Set<string>>, email: string, mailId: string): void {
+    const ids = index.get(email) ?? new Set<string>();
+    ids.add(mailId);
+    index.set(email, ids);
+  }
+
+  private lookup(index: Map<string, Set<string>>, email: string): StoredMail[] {
+    return Array.from(index.get(email) ?? [])
+      .map((mailId) => this.mails.get(mailId))
+      .filter((mail): mail is StoredMail => Boolean(mail));
+  }
+}
+
+export class JsonlCidStore implements CidStore {
+  private readonly cids = new Map<string, string>();
+  private readonly log: JsonlLog<{ key: string; cid: string }>;
+
+  constructor(filePath: string) {
+    this.log = new JsonlLog(filePath, (entry) => this.cids.set(entry.key, entry.cid));
+  }
+
+  async set(key: string, cid: string): Promise<void> {
+    await this.log.ready();
+    if (this.cids.get(key) === cid) return;
+    await this.log.append({ key, cid });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    await this.log.ready();
+    return this.cids.get(key);
+  }
+}
+
+export class JsonlMessagingKeyStore implements MessagingKeyStore {
+  private readonly keys = new Map<string, MessagingKeyAnnouncement[]>();
+  private readonly log: JsonlLog<MessagingKeyAnnouncement>;
+
+  constructor(filePath: string) {
+    this.log = new JsonlLog(filePath, (announcement) => {
+      const address = announcement.address.toLowerCase();
+      const history = this.keys.get(address) ?? [];
+      this.keys.set(address, [...history, announcement].sort((a, b) => a.issuedAt - b.issuedAt));
+    });
+  }
+
+  async save(announcement: MessagingKeyAnnouncement): Promise<void> {
+    await this.log.append(announcement);
+  }
+
+  async list(address: string): Promise<MessagingKeyAnnouncement[]> {
+    await this.log.ready();
+    return this.keys.get(address.toLowerCase()) ?? [];
+  }
+}
+
+export class JsonlRelayAuthorizationStore implements RelayAuthorizationStore {
+  private readonly used = new Set<string>();
+  private readonly log: JsonlLog<{ key: string }>;
+
+  constructor(filePath: string) {
+    this.log = new JsonlLog(filePath, (entry) => this.used.add(entry.key));
+  }
+
+  async claim(signature: string, recipientEmail: string): Promise<boolean> {
+    await this.log.ready();
+    const key = relayAuthorizationKey(signature, recipientEmail);
+    if (this.used.has(key)) return false;
+    // marked before the append, so a concurrent claim of the same key is refused
+    this.used.add(key);
+    await this.log.append({ key });
+    return true;
+  }
+}
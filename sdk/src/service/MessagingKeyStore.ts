@@ -0,0 +1,21 @@
+import type { MessagingKeyAnnouncement } from '../keys/messaging-keys.js';
+
+export interface MessagingKeyStore {
+  save(announcement: MessagingKeyAnnouncement): Promise<void>;
+  // every key published for the address, oldest first
+  list(address: string): Promise<MessagingKeyAnnouncement[]>;
+}
+
+export class InMemoryMessagingKeyStore implements MessagingKeyStore {
+  private readonly keys = new Map<string, MessagingKeyAnnouncement[]>();
+
+  async save(announcement: MessagingKeyAnnouncement): Promise<void> {
+    const address = announcement.address.toLowerCase();
+    const history = this.keys.get(address) ?? [];
+    this.keys.set(address, [...history, announcement].sort((a, b) => a.issuedAt - b.issuedAt));
+  }
+
+  async list(address: string): Promise<MessagingKeyAnnouncement[]> {
+    return this.keys.get(address.toLowerCase()) ?? [];
+  }
+}
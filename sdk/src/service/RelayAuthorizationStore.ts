@@ -0,0 +1,20 @@
+// Relay authorizations already spent, kept so a replayed request is refused even after a restart.
+export interface RelayAuthorizationStore {
+  // records the authorization as used for the recipient; false when it already was
+  claim(signature: string, recipientEmail: string): Promise<boolean>;
+}
+
+export function relayAuthorizationKey(signature: string, recipientEmail: string): string {
+  return `${signature.toLowerCase()}:${recipientEmail}`;
+}
+
+export class InMemoryRelayAuthorizationStore implements RelayAuthorizationStore {
+  private readonly used = new Set<string>();
+
+  async claim(signature: string, recipientEmail: string): Promise<boolean> {
+    const key = relayAuthorizationKey(signature, recipientEmail);
+    if (this.used.has(key)) return false;
+    this.used.add(key);
+    return true;
+  }
+}
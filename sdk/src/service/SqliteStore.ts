@@ -0,0 +1,201 @@
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import type { CidStore } from '../utils/cid-store.js';
+import type { MailStore } from './MailStore.js';
+import type { MessagingKeyStore } from './MessagingKeyStore.js';
+import { relayAuthorizationKey, type RelayAuthorizationStore } from './RelayAuthorizationStore.js';
+import type { MessagingKeyAnnouncement } from '../keys/messaging-keys.js';
+import type { StoredMail } from './types.js';
+
+// The synchronous subset shared by node:sqlite (Node 22.5+) and better-sqlite3.
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+interface MailRow {
+  mail_id: string;
+  cid: string;
+  content_hash: string;
+  sender_email: string;
+  recipient_email: string;
+  timestamp: number;
+  block_number: number | null;
+  tx_hash: string | null;
+}
+
+export async function openSqliteDatabase(filePath: string): Promise<SqliteDatabase> {
+  if (filePath !== ':memory:') {
+    await mkdir(path.dirname(filePath), { recursive: true });
+  }
+
+  // Module names are kept in variables so neither driver is required at build time.
+  const builtin = 'node:sqlite';
+  try {
+    const { DatabaseSync } = await import(builtin);
+    return new DatabaseSync(filePath) as SqliteDatabase;
+  } catch {
+    // fall through to better-sqlite3 on Node versions without node:sqlite
+  }
+
+  const external = 'better-sqlite3';
+  try {
+    const { default: Database } = await import(external);
+    return new Database(filePath) as SqliteDatabase;
+  } catch {
+    throw new Error('SQLite persistence needs Node.js 22.5+ (node:sqlite) or the better-sqlite3 package');
+  }
+}
+
+export class SqliteMailStore implements MailStore {
+  private readonly insert: SqliteStatement;
+  private readonly selectById: SqliteStatement;
+  private readonly selectByRecipient: SqliteStatement;
+  private readonly selectBySender: SqliteStatement;
+
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS mails (
+        mail_id TEXT PRIMARY KEY,
+        cid TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        sender_email TEXT NOT NULL,
+        recipient_email TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        block_number INTEGER,
+        tx_hash TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_mails_recipient ON mails (recipient_email, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_mails_sender ON mails (sender_email, timestamp);
+    `);
+
+    this.insert = db.prepare(`
+      INSERT INTO mails (mail_id, cid, content_hash, sender_email, recipient_email, timestamp, block_number, tx_hash)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (mail_id) DO UPDATE SET
+        cid = excluded.cid,
+        content_hash = excluded.content_hash,
+        sender_email = excluded.sender_email,
+        recipient_email = excluded.recipient_email,
+        timestamp = excluded.timestamp,
+        block_number = excluded.block_number,
+        tx_hash = excluded.tx_hash
+    `);
+    this.selectById = db.prepare('SELECT * FROM mails WHERE mail_id = ?');
+    this.selectByRecipient = db.prepare('SELECT * FROM mails WHERE recipient_email = ? ORDER BY timestamp, rowid');
+    this.selectBySender = db.prepare('SELECT * FROM mails WHERE sender_email = ? ORDER BY timestamp, rowid');
+  }
+
+  async save(mail: StoredMail): Promise<void> {
+    // the mailbox columns are matched by value, so anything but the address itself would hide the mail
+    for (const field of ['senderEmail', 'recipientEmail'] as const) {
+      if (typeof mail[field] !== 'string') {
+        throw new Error(`Mail ${mail.mailId} ${field} must be a string, got ${typeof mail[field]}`);
+      }
+    }
+    this.insert.run(
+      mail.mailId,
+      mail.cid ?? '', // '' rather than NULL so databases created before cid was optional still accept the row
+      mail.contentHash,
+      mail.senderEmail,
+      mail.recipientEmail,
+      mail.timestamp,
+      mail.blockNumber ?? null,
+      mail.txHash ?? null
+    );
+  }
+
+  async get(mailId: string): Promise<StoredMail | undefined> {
+    const row = this.selectById.get(mailId) as MailRow | undefined;
+    return row ? this.toStoredMail(row) : undefined;
+  }
+
+  async getInbox(email: string): Promise<StoredMail[]> {
+    return (this.selectByRecipient.all(email) as MailRow[]).map((row) => this.toStoredMail(row));
+  }
+
+  async getSentbox(email: string): Promise<StoredMail[]> {
+    return (this.selectBySender.all(email) as MailRow[]).map((row) => this.toStoredMail(row));
+  }
+
+  private toStoredMail(row: MailRow): StoredMail {
+    return {
+      mailId: row.mail_id,
+      ...(row.cid && { cid: row.cid }),
+      contentHash: row.content_hash,
+      senderEmail: row.sender_email,
+      recipientEmail: row.recipient_email,
+      timestamp: Number(row.timestamp),
+      ...(row.block_number !== null && { blockNumber: Number(row.block_number) }),
+      ...(row.tx_hash !== null && { txHash: row.tx_hash })
+    };
+  }
+}
+
+export class SqliteCidStore implements CidStore {
+  private readonly upsert: SqliteStatement;
+  private readonly select: SqliteStatement;
+
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec('CREATE TABLE IF NOT EXISTS cids (key TEXT PRIMARY KEY, cid TEXT NOT NULL)');
+    this.upsert = db.prepare('INSERT INTO cids (key, cid) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET cid = excluded.cid');
+    this.select = db.prepare('SELECT cid FROM cids WHERE key = ?');
+  }
+
+  async set(key: string, cid: string): Promise<void> {
+    this.upsert.run(key, cid);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const row = this.select.get(key) as { cid: string } | undefined;
+    return row?.cid;
+  }
+}
+
+export class SqliteMessagingKeyStore implements MessagingKeyStore {
+  private readonly insert: SqliteStatement;
+  private readonly selectByAddress: SqliteStatement;
+
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS messaging_keys (
+        address TEXT NOT NULL,
+        issued_at INTEGER NOT NULL,
+        record TEXT NOT NULL,
+        PRIMARY KEY (address, issued_at)
+      )
+    `);
+    this.insert = db.prepare('INSERT OR REPLACE INTO messaging_keys (address, issued_at, record) VALUES (?, ?, ?)');
+    this.selectByAddress = db.prepare('SELECT record FROM messaging_keys WHERE address = ? ORDER BY issued_at');
+  }
+
+  async save(announcement: MessagingKeyAnnouncement): Promise<void> {
+    this.insert.run(announcement.address.toLowerCase(), announcement.issuedAt, JSON.stringify(announcement));
+  }
+
+  async list(address: string): Promise<MessagingKeyAnnouncement[]> {
+    const rows = this.selectByAddress.all(address.toLowerCase()) as { record: string }[];
+    return rows.map((row) => JSON.parse(row.record) as MessagingKeyAnnouncement);
+  }
+}
+
+export class SqliteRelayAuthorizationStore implements RelayAuthorizationStore {
+  private readonly insert: SqliteStatement;
+
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec('CREATE TABLE IF NOT EXISTS relay_authorizations (key TEXT PRIMARY KEY)');
+    this.insert = db.prepare('INSERT OR IGNORE INTO relay_authorizations (key) VALUES (?)');
+  }
+
+  async claim(signature: string, recipientEmail: string): Promise<boolean> {
+    const { changes } = this.insert.run(relayAuthorizationKey(signature, recipientEmail)) as { changes: number | bigint };
+    return Number(changes) === 1;
+  }
+}
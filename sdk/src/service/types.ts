@@ -1,19 +1,34 @@
-import type { IPFSConfig } from '../types/config.js';
+import type { IPFSConfig, StorageProviderConfig } from '../types/config.js';
+import type { PackageCacheConfig } from '../storage/PackageCache.js';
+import type { ProofSystem } from '../zkproof/proof-systems.js';
 
 export interface EmailServiceConfig {
   rpcUrl: string;
   registryAddress: string;
   mailerAddress: string;
   signerPrivateKey: string;
-  ipfs: IPFSConfig;
+  ipfs?: IPFSConfig;
+  storageProvider?: StorageProviderConfig; // takes precedence over `ipfs`
+  packageCache?: PackageCacheConfig;
   port?: number;
   verificationKeyPath?: string;
+  circuitManifestPath?: string; // takes precedence over `verificationKeyPath`
+  proofSystem?: ProofSystem; // default groth16; must match the verification key and the mailer contract's verifier
+  // /api/send-mail rejects requests the sender has not signed a relay authorization for; false accepts them
+  requireRelayAuthorization?: boolean; // default true
   eventStartBlock?: number;
+  persistence?: PersistenceConfig;
+}
+
+export interface PersistenceConfig {
+  driver: 'memory' | 'jsonl' | 'sqlite';
+  // jsonl: directory holding the log files (default ./data); sqlite: database file (default ./data/basemailer.sqlite)
+  path?: string;
 }
 
 export interface StoredMail {
   mailId: string;
-  cid: string;
+  cid?: string; // unset for mail seen only on chain whose contentHash no CID mapping covers
   contentHash: string;
   senderEmail: string;
   recipientEmail: string;
@@ -0,0 +1,69 @@
+import type { EncryptedMailPackage } from '../types/index.js';
+import type { CompressionOptions } from './compression.js';
+import type { PackageCache } from './PackageCache.js';
+import type { PinReport, StorageProvider } from './StorageProvider.js';
+
+// Read-through package cache in front of any provider. Caches are consulted in order (e.g. memory, then disk)
+// and a hit in a later tier is copied into the earlier ones. Attachment streams are not cached.
+export class CachedStorageProvider implements StorageProvider {
+  private readonly caches: PackageCache[];
+  private readonly inflight = new Map<string, Promise<EncryptedMailPackage>>();
+
+  constructor(
+    private readonly storage: StorageProvider,
+    cache: PackageCache | PackageCache[]
+  ) {
+    this.caches = Array.isArray(cache) ? cache : [cache];
+  }
+
+  async upload(pkg: EncryptedMailPackage, options?: CompressionOptions): Promise<string> {
+    const cid = await this.storage.upload(pkg, options);
+    await this.fill(cid, pkg, this.caches.length);
+    return cid;
+  }
+
+  async retrieve(cid: string): Promise<EncryptedMailPackage> {
+    for (const [tier, cache] of this.caches.entries()) {
+      const cached = await cache.get(cid);
+      if (cached) {
+        await this.fill(cid, cached, tier);
+        return cached;
+      }
+    }
+
+    // an inbox render asks for the same CIDs concurrently; share one fetch per CID
+    let pending = this.inflight.get(cid);
+    if (!pending) {
+      pending = this.storage
+        .retrieve(cid)
+        .then(async (pkg) => {
+          await this.fill(cid, pkg, this.caches.length);
+          return pkg;
+        })
+        .finally(() => this.inflight.delete(cid));
+      this.inflight.set(cid, pending);
+    }
+    return pending;
+  }
+
+  uploadStream(source: AsyncIterable<Uint8Array>): Promise<string> {
+    return this.storage.uploadStream(source);
+  }
+
+  retrieveStream(cid: string): AsyncIterable<Uint8Array> {
+    return this.storage.retrieveStream(cid);
+  }
+
+  pin(cid: string): Promise<PinReport[]> {
+    return this.storage.pin(cid);
+  }
+
+  unpin(cid: string): Promise<void> {
+    return this.storage.unpin(cid);
+  }
+
+  // a cache that cannot be written (full disk, permissions) must not fail the read it was meant to speed up
+  private async fill(cid: string, pkg: EncryptedMailPackage, upToTier: number): Promise<void> {
+    await Promise.all(this.caches.slice(0, upToTier).map((cache) => cache.set(cid, pkg).catch(() => undefined)));
+  }
+}
@@ -1,6 +1,13 @@
 import { create, IPFSHTTPClient } from 'ipfs-http-client';
-import pako from 'pako';
+import { CID } from 'multiformats/cid';
 import type { EncryptedMailPackage } from '../types/index.js';
+import { decodeMailPackage, encodeMailPackage, resolveCompression, type PinReport, type StorageProvider } from './StorageProvider.js';
+import type { CompressionCodec, CompressionOptions } from './compression.js';
+import { PinningService, type PinningServiceOptions, type WaitForPinOptions } from './PinningService.js';
+import { VerifiedRetriever, httpBlockSource, type BlockSource, type RetrievalSourceConfig } from './VerifiedRetriever.js';
+
+// dag-pb + sha2-256 keeps the CID recoverable from the on-chain digest (see cidToBytes32).
+const DAG_PB_V1 = { cidVersion: 1, rawLeaves: false } as const;
 
 export interface IPFSClientOptions {
   endpoint?: string;
@@ -8,40 +15,155 @@ export interface IPFSClientOptions {
   projectSecret?: string;
   pin?: boolean;
   compress?: boolean;
+  compression?: CompressionCodec;
+  compressionThreshold?: number;
   client?: IPFSHTTPClient;
+  pinningServices?: PinningServiceOptions[];
+  // wait for remote pins to settle before pin() returns; by default they are reported as queued
+  waitForRemotePins?: WaitForPinOptions;
+  // tried in order after the upload node; reads keep working while it is down
+  retrievalSources?: (RetrievalSourceConfig | BlockSource)[];
+  retrievalTimeoutMs?: number;
+  hedgeDelayMs?: number;
 }
 
-export class IPFSClient {
+export class IPFSClient implements StorageProvider {
   private readonly ipfs: IPFSHTTPClient;
   private readonly shouldPin: boolean;
-  private readonly shouldCompress: boolean;
+  private readonly compression: CompressionOptions;
+  private readonly pinningServices: PinningService[];
+  private readonly retriever: VerifiedRetriever;
+  // cid -> service name -> pin request id, so status checks skip the list query
+  private readonly remotePins = new Map<string, Map<string, string>>();
 
   constructor(private readonly options: IPFSClientOptions = {}) {
     this.ipfs = options.client ?? this.createClient(options);
     this.shouldPin = options.pin ?? true;
-    this.shouldCompress = options.compress ?? true;
+    this.compression = resolveCompression(options);
+    this.pinningServices = (options.pinningServices ?? []).map((service) => new PinningService(service));
+    const node: BlockSource = {
+      name: options.endpoint ?? 'ipfs',
+      getBlock: (cid, signal) => this.ipfs.block.get(CID.parse(cid), { signal })
+    };
+    this.retriever = new VerifiedRetriever({
+      sources: [
+        node,
+        ...(options.retrievalSources ?? []).map((source) => ('getBlock' in source ? source : httpBlockSource(source)))
+      ],
+      timeoutMs: options.retrievalTimeoutMs,
+      hedgeDelayMs: options.hedgeDelayMs
+    });
   }
 
-  async upload(pkg: EncryptedMailPackage): Promise<string> {
-    const payload = Buffer.from(JSON.stringify(pkg), 'utf-8');
-    const data = this.shouldCompress ? Buffer.from(pako.gzip(payload)) : payload;
-    const result = await this.ipfs.add(data, { pin: this.shouldPin });
+  async upload(pkg: EncryptedMailPackage, options: CompressionOptions = {}): Promise<string> {
+    const data = encodeMailPackage(pkg, { ...this.compression, ...options });
+    const result = await this.ipfs.add(data, { pin: this.shouldPin, ...DAG_PB_V1 });
     return result.cid.toString();
   }
 
   async retrieve(cid: string): Promise<EncryptedMailPackage> {
     const chunks: Uint8Array[] = [];
-    for await (const chunk of this.ipfs.cat(cid)) {
-      chunks.push(chunk as Uint8Array);
+    for await (const chunk of this.retriever.cat(cid)) {
+      chunks.push(chunk);
     }
     const buffer = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
-    const decoded = this.shouldCompress ? Buffer.from(pako.ungzip(buffer)) : buffer;
-    return JSON.parse(decoded.toString('utf-8')) as EncryptedMailPackage;
+    return decodeMailPackage(buffer);
+  }
+
+  async uploadStream(source: AsyncIterable<Uint8Array>): Promise<string> {
+    const result = await this.ipfs.add(source, { pin: this.shouldPin, ...DAG_PB_V1 });
+    return result.cid.toString();
+  }
+
+  async *retrieveStream(cid: string): AsyncGenerator<Uint8Array> {
+    yield* this.retriever.cat(cid);
+  }
+
+  // Pins on the local node and every remote service in parallel; only fails when no target accepted the pin.
+  async pin(cid: string): Promise<PinReport[]> {
+    const targets: { provider: string; run: () => Promise<PinReport> }[] = [];
+    if (this.shouldPin) {
+      targets.push({
+        provider: 'ipfs',
+        run: async () => {
+          await this.ipfs.pin.add(cid);
+          return { provider: 'ipfs', status: 'pinned' };
+        }
+      });
+    }
+    for (const service of this.pinningServices) {
+      targets.push({ provider: service.name, run: () => this.pinRemote(service, cid) });
+    }
+
+    const settled = await Promise.allSettled(targets.map((target) => target.run()));
+    const reports = settled.map((result, index): PinReport =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+            provider: targets[index].provider,
+            status: 'failed',
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+          }
+    );
+    if (reports.length > 0 && reports.every((report) => report.status === 'failed')) {
+      throw new Error(`Failed to pin ${cid}: ${reports.map((report) => `${report.provider}: ${report.error}`).join('; ')}`);
+    }
+    return reports;
+  }
+
+  async pinStatus(cid: string): Promise<PinReport[]> {
+    const tracked = this.remotePins.get(cid);
+    return Promise.all(
+      this.pinningServices.map(async (service): Promise<PinReport> => {
+        try {
+          const requestId = tracked?.get(service.name);
+          const status = requestId ? await service.getPin(requestId) : this.latest(await service.findPins(cid));
+          if (!status) return { provider: service.name, status: 'failed', error: 'not pinned' };
+          return { provider: service.name, status: status.status, requestId: status.requestid };
+        } catch (error) {
+          return { provider: service.name, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+
+  async unpin(cid: string): Promise<void> {
+    if (this.shouldPin) {
+      await this.ipfs.pin.rm(cid);
+    }
+    // every service is attempted so one outage does not leave the others pinned
+    const settled = await Promise.allSettled(
+      this.pinningServices.map(async (service) => {
+        for (const pin of await service.findPins(cid)) {
+          await service.removePin(pin.requestid);
+        }
+      })
+    );
+    this.remotePins.delete(cid);
+    const failures = settled.flatMap((result, index) =>
+      result.status === 'rejected' ? [`${this.pinningServices[index].name}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`] : []
+    );
+    if (failures.length > 0) {
+      throw new Error(`Failed to unpin ${cid}: ${failures.join('; ')}`);
+    }
+  }
+
+  private async pinRemote(service: PinningService, cid: string): Promise<PinReport> {
+    // reuse a live request instead of queueing a duplicate when the same CID is pinned again
+    const existing = (await service.findPins(cid)).find((pin) => pin.status !== 'failed');
+    let status = existing ?? (await service.addPin({ cid }));
+    const tracked = this.remotePins.get(cid) ?? new Map<string, string>();
+    tracked.set(service.name, status.requestid);
+    this.remotePins.set(cid, tracked);
+
+    if (this.options.waitForRemotePins && status.status !== 'pinned') {
+      status = await service.waitForPin(status.requestid, this.options.waitForRemotePins);
+    }
+    return { provider: service.name, status: status.status, requestId: status.requestid };
   }
 
-  async pin(cid: string): Promise<void> {
-    if (!this.shouldPin) return;
-    await this.ipfs.pin.add(cid);
+  private latest<T extends { created: string }>(pins: T[]): T | undefined {
+    return [...pins].sort((a, b) => b.created.localeCompare(a.created))[0];
   }
 
   private createClient(options: IPFSClientOptions): IPFSHTTPClient {
@@ -0,0 +1,145 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { once } from 'events';
+import type { EncryptedMailPackage } from '../types/index.js';
+import { rawCidFromDigest, sha256CidDigest } from '../utils/bytes.js';
+import { decodeMailPackage, encodeMailPackage, resolveCompression, type PinReport, type StorageProvider } from './StorageProvider.js';
+import type { CompressionCodec, CompressionOptions } from './compression.js';
+
+export interface LocalStorageOptions {
+  directory: string;
+  compress?: boolean;
+  compression?: CompressionCodec;
+  compressionThreshold?: number;
+}
+
+// Content-addressed blobs on disk, sharded by the first digest byte: <directory>/ab/abcd…
+export class LocalStorageProvider implements StorageProvider {
+  private readonly directory: string;
+  private readonly compression: CompressionOptions;
+
+  constructor(options: LocalStorageOptions) {
+    if (!options.directory) {
+      throw new Error('Local storage directory is required');
+    }
+    this.directory = path.resolve(options.directory);
+    this.compression = resolveCompression(options);
+  }
+
+  async upload(pkg: EncryptedMailPackage, options: CompressionOptions = {}): Promise<string> {
+    const data = encodeMailPackage(pkg, { ...this.compression, ...options });
+    const digest = createHash('sha256').update(data).digest();
+    if (!(await this.exists(this.blobPath(digest)))) {
+      const temp = await this.tempPath();
+      try {
+        await writeFile(temp, data, { flag: 'wx' });
+      } catch (error) {
+        await rm(temp, { force: true });
+        throw error;
+      }
+      await this.commit(temp, digest);
+    }
+    return rawCidFromDigest(digest);
+  }
+
+  async retrieve(cid: string): Promise<EncryptedMailPackage> {
+    const digest = sha256CidDigest(cid);
+    const data = await this.readBlob(digest, cid);
+    if (!createHash('sha256').update(data).digest().equals(digest)) {
+      throw new Error(`Stored content for ${cid} does not match its digest`);
+    }
+    return decodeMailPackage(data);
+  }
+
+  async uploadStream(source: AsyncIterable<Uint8Array>): Promise<string> {
+    const temp = await this.tempPath();
+    const hash = createHash('sha256');
+    const stream = createWriteStream(temp, { flags: 'wx' });
+    try {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        if (!stream.write(chunk)) await once(stream, 'drain');
+      }
+      stream.end();
+      await once(stream, 'finish');
+    } catch (error) {
+      stream.destroy();
+      await rm(temp, { force: true });
+      throw error;
+    }
+
+    const digest = hash.digest();
+    await this.commit(temp, digest);
+    return rawCidFromDigest(digest);
+  }
+
+  async *retrieveStream(cid: string): AsyncGenerator<Uint8Array> {
+    const digest = sha256CidDigest(cid);
+    const target = this.blobPath(digest);
+    if (!(await this.exists(target))) {
+      throw new Error(`Content ${cid} not found in local storage`);
+    }
+
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(target)) {
+      hash.update(chunk as Buffer);
+      yield chunk as Buffer;
+    }
+    if (!hash.digest().equals(digest)) {
+      throw new Error(`Stored content for ${cid} does not match its digest`);
+    }
+  }
+
+  // Everything written is kept until unpinned, so pinning only checks the blob is present.
+  async pin(cid: string): Promise<PinReport[]> {
+    if (!(await this.exists(this.blobPath(sha256CidDigest(cid))))) {
+      throw new Error(`Content ${cid} not found in local storage`);
+    }
+    return [{ provider: 'local', status: 'pinned' }];
+  }
+
+  // There is no garbage collector to defer to, so unpinning deletes the blob.
+  async unpin(cid: string): Promise<void> {
+    await rm(this.blobPath(sha256CidDigest(cid)), { force: true });
+  }
+
+  private blobPath(digest: Buffer): string {
+    const hex = digest.toString('hex');
+    return path.join(this.directory, hex.slice(0, 2), hex);
+  }
+
+  private async readBlob(digest: Buffer, cid: string): Promise<Buffer> {
+    try {
+      return await readFile(this.blobPath(digest));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Content ${cid} not found in local storage`);
+      }
+      throw error;
+    }
+  }
+
+  private async exists(target: string): Promise<boolean> {
+    try {
+      await stat(target);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  // Blobs are written to a temp file and renamed so a crash never leaves a truncated blob under a valid digest.
+  private async tempPath(): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+    return path.join(this.directory, `.upload-${randomUUID()}`);
+  }
+
+  private async commit(temp: string, digest: Buffer): Promise<void> {
+    const target = this.blobPath(digest);
+    await mkdir(path.dirname(target), { recursive: true });
+    await rename(temp, target);
+  }
+}
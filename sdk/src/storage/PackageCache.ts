@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EncryptedMailPackage } from '../types/index.js';
+
+// CIDs are immutable, so entries never go stale and are only ever evicted for space.
+export interface PackageCache {
+  get(cid: string): Promise<EncryptedMailPackage | undefined>;
+  set(cid: string, pkg: EncryptedMailPackage): Promise<void>;
+}
+
+export interface MemoryPackageCacheOptions {
+  maxBytes?: number;
+  maxEntries?: number;
+}
+
+export interface DiskPackageCacheOptions {
+  directory: string;
+  maxBytes?: number;
+}
+
+// JSON-friendly form used by the service config: a memory tier, plus a disk tier when `directory` is set.
+export interface PackageCacheConfig {
+  maxMemoryBytes?: number;
+  directory?: string;
+  maxDiskBytes?: number;
+}
+
+interface CacheEntry {
+  size: number;
+  pkg?: EncryptedMailPackage;
+}
+
+// Map iteration order doubles as recency order: hits are re-inserted at the end, eviction starts at the front.
+abstract class LruIndex {
+  protected readonly entries = new Map<string, CacheEntry>();
+  protected totalBytes = 0;
+
+  protected touch(cid: string, entry: CacheEntry): void {
+    this.entries.delete(cid);
+    this.entries.set(cid, entry);
+  }
+
+  protected add(cid: string, entry: CacheEntry): void {
+    const previous = this.entries.get(cid);
+    if (previous) this.totalBytes -= previous.size;
+    this.touch(cid, entry);
+    this.totalBytes += entry.size;
+  }
+
+  protected evict(maxBytes: number, maxEntries = Infinity): string[] {
+    const evicted: string[] = [];
+    for (const [cid, entry] of this.entries) {
+      if (this.totalBytes <= maxBytes && this.entries.size <= maxEntries) break;
+      this.entries.delete(cid);
+      this.totalBytes -= entry.size;
+      evicted.push(cid);
+    }
+    return evicted;
+  }
+}
+
+export class MemoryPackageCache extends LruIndex implements PackageCache {
+  private readonly maxBytes: number;
+  private readonly maxEntries: number;
+
+  constructor(options: MemoryPackageCacheOptions = {}) {
+    super();
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  async get(cid: string): Promise<EncryptedMailPackage | undefined> {
+    const entry = this.entries.get(cid);
+    if (!entry) return undefined;
+    this.touch(cid, entry);
+    return entry.pkg;
+  }
+
+  async set(cid: string, pkg: EncryptedMailPackage): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(pkg));
+    if (size > this.maxBytes) return;
+    this.add(cid, { size, pkg });
+    this.evict(this.maxBytes, this.maxEntries);
+  }
+}
+
+export class DiskPackageCache extends LruIndex implements PackageCache {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private loaded?: Promise<void>;
+
+  constructor(options: DiskPackageCacheOptions) {
+    super();
+    if (!options.directory) {
+      throw new Error('Package cache directory is required');
+    }
+    this.directory = path.resolve(options.directory);
+    this.maxBytes = options.maxBytes ?? 512 * 1024 * 1024;
+  }
+
+  async get(cid: string): Promise<EncryptedMailPackage | undefined> {
+    if (!isSafeKey(cid)) return undefined;
+    await this.ready();
+    const entry = this.entries.get(cid);
+    if (!entry) return undefined;
+
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath(cid), 'utf-8');
+    } catch {
+      // removed behind our back; forget it and fall through to storage
+      this.entries.delete(cid);
+      this.totalBytes -= entry.size;
+      return undefined;
+    }
+    this.touch(cid, entry);
+    // mtime tracks recency so the order survives restarts
+    const now = new Date();
+    await utimes(this.filePath(cid), now, now).catch(() => undefined);
+    return JSON.parse(raw) as EncryptedMailPackage;
+  }
+
+  async set(cid: string, pkg: EncryptedMailPackage): Promise<void> {
+    if (!isSafeKey(cid)) return;
+    await this.ready();
+    const data = JSON.stringify(pkg);
+    const size = Buffer.byteLength(data);
+    if (size > this.maxBytes) return;
+
+    const temp = path.join(this.directory, `.tmp-${randomUUID()}`);
+    await writeFile(temp, data, 'utf-8');
+    await rename(temp, this.filePath(cid));
+    this.add(cid, { size });
+    for (const evicted of this.evict(this.maxBytes)) {
+      await rm(this.filePath(evicted), { force: true });
+    }
+  }
+
+  private ready(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const files = (await readdir(this.directory)).filter((file) => file.endsWith('.json'));
+    const existing = await Promise.all(
+      files.map(async (file) => {
+        const info = await stat(path.join(this.directory, file));
+        return { cid: file.slice(0, -'.json'.length), size: info.size, usedAt: info.mtimeMs };
+      })
+    );
+    for (const file of existing.sort((a, b) => a.usedAt - b.usedAt)) {
+      this.add(file.cid, { size: file.size });
+    }
+    for (const evicted of this.evict(this.maxBytes)) {
+      await rm(this.filePath(evicted), { force: true });
+    }
+  }
+
+  private filePath(cid: string): string {
+    return path.join(this.directory, `${cid}.json`);
+  }
+}
+
+export function createPackageCaches(config: PackageCacheConfig): PackageCache[] {
+  const caches: PackageCache[] = [new MemoryPackageCache({ maxBytes: config.maxMemoryBytes })];
+  if (config.directory) {
+    caches.push(new DiskPackageCache({ directory: config.directory, maxBytes: config.maxDiskBytes }));
+  }
+  return caches;
+}
+
+// CIDs are base32/base58 strings; anything else is not cached so request parameters can never escape the directory.
+function isSafeKey(cid: string): boolean {
+  return /^[A-Za-z0-9]+$/.test(cid);
+}
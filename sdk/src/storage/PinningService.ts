@@ -0,0 +1,93 @@
+// Client for the IPFS Pinning Service API (https://ipfs.github.io/pinning-services-api-spec/),
+// implemented by Pinata, web3.storage, Filebase and kubo's own remote pinning endpoints.
+
+export type RemotePinState = 'queued' | 'pinning' | 'pinned' | 'failed';
+
+export interface PinningServiceOptions {
+  endpoint: string; // base URL, e.g. https://api.pinata.cloud/psa
+  accessToken: string;
+  name?: string;
+  fetch?: typeof fetch;
+}
+
+export interface RemotePin {
+  cid: string;
+  name?: string;
+  origins?: string[];
+  meta?: Record<string, string>;
+}
+
+export interface RemotePinStatus {
+  requestid: string;
+  status: RemotePinState;
+  created: string;
+  pin: RemotePin;
+  delegates: string[];
+  info?: Record<string, string>;
+}
+
+export interface WaitForPinOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+}
+
+export class PinningService {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: PinningServiceOptions) {
+    if (!options.endpoint || !options.accessToken) {
+      throw new Error('Pinning service endpoint and accessToken are required');
+    }
+    this.baseUrl = options.endpoint.replace(/\/+$/, '');
+    this.name = options.name ?? new URL(this.baseUrl).host;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  async addPin(pin: RemotePin): Promise<RemotePinStatus> {
+    return this.request('/pins', { method: 'POST', body: JSON.stringify(pin) });
+  }
+
+  async getPin(requestId: string): Promise<RemotePinStatus> {
+    return this.request(`/pins/${encodeURIComponent(requestId)}`, { method: 'GET' });
+  }
+
+  async findPins(cid: string): Promise<RemotePinStatus[]> {
+    const query = new URLSearchParams({ cid, status: 'queued,pinning,pinned,failed' });
+    const response = await this.request(`/pins?${query}`, { method: 'GET' });
+    return (response.results ?? []) as RemotePinStatus[];
+  }
+
+  async removePin(requestId: string): Promise<void> {
+    await this.request(`/pins/${encodeURIComponent(requestId)}`, { method: 'DELETE' });
+  }
+
+  // Resolves with the last seen status once the pin settles or the timeout passes; callers decide what "queued" means.
+  async waitForPin(requestId: string, options: WaitForPinOptions = {}): Promise<RemotePinStatus> {
+    const deadline = Date.now() + (options.timeoutMs ?? 60_000);
+    const intervalMs = options.intervalMs ?? 2_000;
+    let status = await this.getPin(requestId);
+    while ((status.status === 'queued' || status.status === 'pinning') && Date.now() + intervalMs < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+      status = await this.getPin(requestId);
+    }
+    return status;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<any> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        authorization: `Bearer ${this.options.accessToken}`,
+        ...(init.body !== undefined && { 'content-type': 'application/json' })
+      }
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Pinning service ${this.name} request failed (${response.status}): ${text}`);
+    }
+    // DELETE answers 202 with an empty body
+    return init.method === 'DELETE' ? undefined : response.json();
+  }
+}
@@ -0,0 +1,157 @@
+import { createHash, createHmac } from 'crypto';
+import type { EncryptedMailPackage } from '../types/index.js';
+import { rawCidFromDigest, sha256CidDigest } from '../utils/bytes.js';
+import { decodeMailPackage, encodeMailPackage, resolveCompression, type PinReport, type StorageProvider } from './StorageProvider.js';
+import type { CompressionCodec, CompressionOptions } from './compression.js';
+
+export interface S3StorageOptions {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or a MinIO/R2 URL
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region?: string;
+  prefix?: string;
+  compress?: boolean;
+  compression?: CompressionCodec;
+  compressionThreshold?: number;
+  fetch?: typeof fetch;
+}
+
+// Objects are keyed by the hex sha2-256 of their bytes and addressed path-style (/bucket/key), which every
+// S3-compatible server accepts. Requests are signed with AWS Signature V4 so no SDK dependency is needed.
+export class S3StorageProvider implements StorageProvider {
+  private readonly endpoint: URL;
+  private readonly region: string;
+  private readonly prefix: string;
+  private readonly compression: CompressionOptions;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: S3StorageOptions) {
+    if (!options.endpoint || !options.bucket) {
+      throw new Error('S3 endpoint and bucket are required');
+    }
+    if (!options.accessKeyId || !options.secretAccessKey) {
+      throw new Error('S3 accessKeyId and secretAccessKey are required');
+    }
+    this.endpoint = new URL(options.endpoint.endsWith('/') ? options.endpoint : `${options.endpoint}/`);
+    this.region = options.region ?? 'us-east-1';
+    this.prefix = options.prefix ?? '';
+    this.compression = resolveCompression(options);
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  async upload(pkg: EncryptedMailPackage, options: CompressionOptions = {}): Promise<string> {
+    return this.putObject(encodeMailPackage(pkg, { ...this.compression, ...options }));
+  }
+
+  async retrieve(cid: string): Promise<EncryptedMailPackage> {
+    return decodeMailPackage(await this.getObject(cid));
+  }
+
+  // S3 needs the length up front and multipart uploads are not worth it for attachment sizes, so the stream is buffered.
+  async uploadStream(source: AsyncIterable<Uint8Array>): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return this.putObject(Buffer.concat(chunks));
+  }
+
+  async *retrieveStream(cid: string): AsyncGenerator<Uint8Array> {
+    yield await this.getObject(cid);
+  }
+
+  async pin(cid: string): Promise<PinReport[]> {
+    const response = await this.send('HEAD', sha256CidDigest(cid));
+    if (!response.ok) {
+      throw new Error(`Content ${cid} not found in S3 bucket ${this.options.bucket}`);
+    }
+    return [{ provider: 's3', status: 'pinned' }];
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const response = await this.send('DELETE', sha256CidDigest(cid));
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE failed with status ${response.status}`);
+    }
+  }
+
+  private async putObject(data: Buffer): Promise<string> {
+    const digest = createHash('sha256').update(data).digest();
+    const response = await this.send('PUT', digest, data);
+    if (!response.ok) {
+      throw new Error(`S3 PUT failed with status ${response.status}: ${await response.text()}`);
+    }
+    return rawCidFromDigest(digest);
+  }
+
+  private async getObject(cid: string): Promise<Buffer> {
+    const digest = sha256CidDigest(cid);
+    const response = await this.send('GET', digest);
+    if (response.status === 404) {
+      throw new Error(`Content ${cid} not found in S3 bucket ${this.options.bucket}`);
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET failed with status ${response.status}`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    if (!createHash('sha256').update(data).digest().equals(digest)) {
+      throw new Error(`Stored content for ${cid} does not match its digest`);
+    }
+    return data;
+  }
+
+  private send(method: 'GET' | 'PUT' | 'HEAD' | 'DELETE', digest: Buffer, body?: Buffer): Promise<Response> {
+    const key = `${this.prefix}${digest.toString('hex')}`;
+    const url = new URL(
+      [this.options.bucket, ...key.split('/')].map((segment) => encodeURIComponent(segment)).join('/'),
+      this.endpoint
+    );
+    const headers = this.sign(method, url, body ?? Buffer.alloc(0));
+    return this.fetchImpl(url, { method, headers, ...(body && { body: new Uint8Array(body) }) });
+  }
+
+  private sign(method: string, url: URL, body: Buffer): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = createHash('sha256').update(body).digest('hex');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(this.options.sessionToken && { 'x-amz-security-token': this.options.sessionToken })
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+    const signingKey = [dateStamp, this.region, 's3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      Buffer.from(`AWS4${this.options.secretAccessKey}`)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself; it only needs to be part of the signature.
+    const { host: _host, ...requestHeaders } = headers;
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import type { EncryptedMailPackage } from '../types/index.js';
+import {
+  assertWithinLimit,
+  compressPayload,
+  decompressPayload,
+  type CompressionCodec,
+  type CompressionOptions
+} from './compression.js';
+
+// Every provider returns a CID string so contentCID stays the same regardless of where the bytes live.
+export interface StorageProvider {
+  // `options` overrides the provider's default codec for this upload; readers detect the encoding themselves
+  upload(pkg: EncryptedMailPackage, options?: CompressionOptions): Promise<string>;
+  retrieve(cid: string): Promise<EncryptedMailPackage>;
+  uploadStream(source: AsyncIterable<Uint8Array>): Promise<string>;
+  retrieveStream(cid: string): AsyncIterable<Uint8Array>;
+  pin(cid: string): Promise<PinReport[]>;
+  unpin(cid: string): Promise<void>;
+}
+
+// One entry per place the content is pinned; `queued`/`pinning` come from remote services that pin asynchronously.
+export interface PinReport {
+  provider: string;
+  status: 'queued' | 'pinning' | 'pinned' | 'failed';
+  requestId?: string;
+  error?: string;
+}
+
+export function encodeMailPackage(pkg: EncryptedMailPackage, options: CompressionOptions = {}): Buffer {
+  const payload = Buffer.from(JSON.stringify(pkg), 'utf-8');
+  // refused here rather than by every reader
+  assertWithinLimit(payload.length);
+  return compressPayload(payload, options);
+}
+
+export function decodeMailPackage(data: Uint8Array): EncryptedMailPackage {
+  return JSON.parse(decompressPayload(data).toString('utf-8')) as EncryptedMailPackage;
+}
+
+// `compress: false` predates codec selection and still means no compression.
+export function resolveCompression(options: {
+  compress?: boolean;
+  compression?: CompressionCodec;
+  compressionThreshold?: number;
+}): CompressionOptions {
+  return {
+    codec: options.compression ?? (options.compress === false ? 'none' : 'gzip'),
+    threshold: options.compressionThreshold
+  };
+}
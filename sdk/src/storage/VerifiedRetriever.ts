@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import * as dagPb from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
+import { CID } from 'multiformats/cid';
+
+const DAG_PB_CODE = 0x70;
+const RAW_CODE = 0x55;
+const SHA2_256_CODE = 0x12;
+
+export interface RetrievalSourceConfig {
+  // gateway: trustless HTTP gateway (GET /ipfs/<cid>?format=raw); api: kubo RPC node (POST /api/v0/block/get)
+  type: 'gateway' | 'api';
+  url: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface BlockSource {
+  name: string;
+  timeoutMs?: number;
+  getBlock(cid: string, signal: AbortSignal): Promise<Uint8Array>;
+}
+
+export interface VerifiedRetrieverOptions {
+  sources: BlockSource[];
+  timeoutMs?: number;
+  // start the next source when the current ones have not answered after this long
+  hedgeDelayMs?: number;
+}
+
+// Fetches content block by block and checks each block against its CID before use, so any gateway can serve
+// reads without being trusted. UnixFS files are reassembled from the verified dag-pb tree.
+export class VerifiedRetriever {
+  private readonly sources: BlockSource[];
+  private readonly timeoutMs: number;
+  private readonly hedgeDelayMs: number;
+
+  constructor(options: VerifiedRetrieverOptions) {
+    if (options.sources.length === 0) {
+      throw new Error('At least one retrieval source is required');
+    }
+    this.sources = options.sources;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.hedgeDelayMs = options.hedgeDelayMs ?? 750;
+  }
+
+  async *cat(cid: string): AsyncGenerator<Uint8Array> {
+    yield* this.walk(CID.parse(cid));
+  }
+
+  async getBlock(cid: CID): Promise<Uint8Array> {
+    if (cid.multihash.code !== SHA2_256_CODE) {
+      throw new Error(`Cannot verify ${cid}: only sha2-256 CIDs are supported`);
+    }
+    const expected = Buffer.from(cid.multihash.digest);
+
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const controllers: AbortController[] = [];
+      const errors: string[] = [];
+      let next = 0;
+      let inFlight = 0;
+      let settled = false;
+      let hedgeTimer: NodeJS.Timeout | undefined;
+
+      const finish = (error?: Error, block?: Uint8Array) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(hedgeTimer);
+        controllers.forEach((controller) => controller.abort());
+        if (error) reject(error);
+        else resolve(block!);
+      };
+
+      const launch = () => {
+        clearTimeout(hedgeTimer);
+        if (settled || next >= this.sources.length) return;
+        const source = this.sources[next++];
+        const controller = new AbortController();
+        controllers.push(controller);
+        const timeout = setTimeout(() => controller.abort(), source.timeoutMs ?? this.timeoutMs);
+        inFlight += 1;
+        hedgeTimer = setTimeout(launch, this.hedgeDelayMs);
+
+        source
+          .getBlock(cid.toString(), controller.signal)
+          .then((block) => {
+            if (!createHash('sha256').update(block).digest().equals(expected)) {
+              throw new Error('block does not match its CID');
+            }
+            finish(undefined, block);
+          })
+          .catch((error) => {
+            errors.push(`${source.name}: ${controller.signal.aborted ? 'timed out' : error instanceof Error ? error.message : String(error)}`);
+          })
+          .finally(() => {
+            clearTimeout(timeout);
+            inFlight -= 1;
+            if (settled) return;
+            if (next < this.sources.length) {
+              launch();
+            } else if (inFlight === 0) {
+              finish(new Error(`Unable to retrieve ${cid} from any source (${errors.join('; ')})`));
+            }
+          });
+      };
+
+      launch();
+    });
+  }
+
+  private async *walk(cid: CID): AsyncGenerator<Uint8Array> {
+    const block = await this.getBlock(cid);
+    if (cid.code === RAW_CODE) {
+      yield block;
+      return;
+    }
+    if (cid.code !== DAG_PB_CODE) {
+      throw new Error(`Unsupported codec 0x${cid.code.toString(16)} for ${cid}`);
+    }
+
+    const node = dagPb.decode(block);
+    if (!node.Data) {
+      throw new Error(`${cid} is not a UnixFS node`);
+    }
+    const unixfs = UnixFS.unmarshal(node.Data);
+    if (unixfs.type !== 'file' && unixfs.type !== 'raw') {
+      throw new Error(`${cid} is a UnixFS ${unixfs.type}, not a file`);
+    }
+    if (unixfs.data && unixfs.data.length > 0) {
+      yield unixfs.data;
+    }
+    for (const link of node.Links) {
+      yield* this.walk(CID.parse(link.Hash.toString()));
+    }
+  }
+}
+
+export function httpBlockSource(config: RetrievalSourceConfig, fetchImpl: typeof fetch = fetch): BlockSource {
+  const base = config.url.replace(/\/+$/, '');
+  return {
+    name: config.url,
+    timeoutMs: config.timeoutMs,
+    async getBlock(cid, signal) {
+      const response =
+        config.type === 'gateway'
+          ? await fetchImpl(`${base}/ipfs/${cid}?format=raw`, {
+              headers: { accept: 'application/vnd.ipld.raw', ...config.headers },
+              signal
+            })
+          : await fetchImpl(`${base}/api/v0/block/get?arg=${encodeURIComponent(cid)}`, {
+              method: 'POST',
+              headers: config.headers,
+              signal
+            });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    }
+  };
+}
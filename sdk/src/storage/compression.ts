@@ -0,0 +1,95 @@
+import zlib from 'zlib';
+import pako from 'pako';
+
+export type CompressionCodec = 'none' | 'gzip' | 'brotli' | 'zstd';
+
+export interface CompressionOptions {
+  codec?: CompressionCodec;
+  // payloads smaller than this many bytes are stored uncompressed. Off by default: readers from before magic-byte
+  // detection take a package written with compression on to be gzip, whatever its size.
+  threshold?: number;
+}
+
+// gzip and zstd frames carry their own magic bytes and are written bare, so readers that predate
+// detection still open gzip packages. Brotli has no magic, so it is wrapped in "BMZ" + version + codec id.
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const ZSTD_MAGIC = Buffer.from([0x28, 0xb5, 0x2f, 0xfd]);
+const ENVELOPE_MAGIC = Buffer.from([0x42, 0x4d, 0x5a, 0x01]);
+const ENVELOPE_CODECS: Record<number, CompressionCodec> = { 1: 'brotli' };
+
+// Largest package, decoded, that is written or read. Attachments are stored apart, so mail content stays far below it;
+// the bound is what stops a small compressed upload from inflating without limit on the reader.
+export const MAX_PACKAGE_BYTES = 16 * 1024 * 1024;
+
+export function compressPayload(payload: Buffer, options: CompressionOptions = {}): Buffer {
+  const codec = options.codec ?? 'gzip';
+  if (codec === 'none' || payload.length < (options.threshold ?? 0)) {
+    return payload;
+  }
+
+  switch (codec) {
+    case 'gzip':
+      return Buffer.from(pako.gzip(payload));
+    case 'brotli':
+      return Buffer.concat([ENVELOPE_MAGIC, Buffer.from([1]), zlib.brotliCompressSync(payload)]);
+    case 'zstd':
+      assertZstdSupported();
+      return zlib.zstdCompressSync(payload);
+    default:
+      throw new Error(`Unsupported compression codec ${codec as string}`);
+  }
+}
+
+export function decompressPayload(data: Uint8Array, maxOutputLength = MAX_PACKAGE_BYTES): Buffer {
+  const buffer = Buffer.from(data);
+  if (startsWith(buffer, GZIP_MAGIC)) {
+    return inflate(maxOutputLength, () => zlib.gunzipSync(buffer, { maxOutputLength }));
+  }
+  if (startsWith(buffer, ZSTD_MAGIC)) {
+    assertZstdSupported();
+    return inflate(maxOutputLength, () => zlib.zstdDecompressSync(buffer, { maxOutputLength }));
+  }
+  if (startsWith(buffer, ENVELOPE_MAGIC)) {
+    const codec = ENVELOPE_CODECS[buffer[ENVELOPE_MAGIC.length]];
+    if (codec === 'brotli') {
+      const compressed = buffer.subarray(ENVELOPE_MAGIC.length + 1);
+      return inflate(maxOutputLength, () => zlib.brotliDecompressSync(compressed, { maxOutputLength }));
+    }
+    throw new Error(`Unknown compression envelope codec ${buffer[ENVELOPE_MAGIC.length]}`);
+  }
+  // uncompressed packages are JSON objects
+  if (buffer[0] === 0x7b) {
+    assertWithinLimit(buffer.length, maxOutputLength);
+    return buffer;
+  }
+  throw new Error('Unrecognised package encoding');
+}
+
+export function assertWithinLimit(size: number, maxOutputLength = MAX_PACKAGE_BYTES): void {
+  if (size > maxOutputLength) throw packageTooLarge(maxOutputLength);
+}
+
+// zlib stops at maxOutputLength with a RangeError; reported like an oversized uncompressed package
+function inflate(maxOutputLength: number, run: () => Buffer): Buffer {
+  try {
+    return run();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw packageTooLarge(maxOutputLength);
+    throw error;
+  }
+}
+
+function packageTooLarge(maxOutputLength: number): Error {
+  return new Error(`Package exceeds the ${maxOutputLength}-byte limit`);
+}
+
+function startsWith(buffer: Buffer, magic: Buffer): boolean {
+  return buffer.length >= magic.length && buffer.subarray(0, magic.length).equals(magic);
+}
+
+function assertZstdSupported(): void {
+  // node:zlib gained zstd in Node.js 22.15
+  if (typeof zlib.zstdCompressSync !== 'function') {
+    throw new Error(`zstd compression needs Node.js 22.15 or newer (running ${process.version})`);
+  }
+}
@@ -0,0 +1,18 @@
+import type { StorageProviderConfig } from '../types/config.js';
+import { IPFSClient } from './IPFSClient.js';
+import { LocalStorageProvider } from './LocalStorageProvider.js';
+import { S3StorageProvider } from './S3StorageProvider.js';
+import type { StorageProvider } from './StorageProvider.js';
+
+export function createStorageProvider(config: StorageProviderConfig): StorageProvider {
+  switch (config.type) {
+    case 'ipfs':
+      return new IPFSClient(config);
+    case 'local':
+      return new LocalStorageProvider(config);
+    case 's3':
+      return new S3StorageProvider(config);
+    default:
+      throw new Error(`Unknown storage provider ${(config as { type: string }).type}`);
+  }
+}
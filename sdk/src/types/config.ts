@@ -2,24 +2,44 @@ import type { JsonRpcProvider, Signer } from 'ethers';
 import type { IPFSHTTPClient } from 'ipfs-http-client';
 import type { EncryptionManager } from '../encryption/EncryptionManager.js';
 import type { ProofGenerator } from '../zkproof/ProofGenerator.js';
-import type { IPFSClient } from '../storage/IPFSClient.js';
+import type { ProofSystem } from '../zkproof/proof-systems.js';
+import type { StorageProvider } from '../storage/StorageProvider.js';
+import type { LocalStorageOptions } from '../storage/LocalStorageProvider.js';
+import type { S3StorageOptions } from '../storage/S3StorageProvider.js';
+import type { PinningServiceOptions, WaitForPinOptions } from '../storage/PinningService.js';
+import type { CompressionCodec } from '../storage/compression.js';
+import type { PackageCache } from '../storage/PackageCache.js';
+import type { BlockSource, RetrievalSourceConfig } from '../storage/VerifiedRetriever.js';
 import type { BackendAPI } from '../backend/BackendAPI.js';
 import type { CidStore } from '../utils/cid-store.js';
+import type { FileKeystore } from '../keys/Keystore.js';
 
 export interface BaseMailerClientConfig {
   registryAddress: string;
   mailerAddress: string;
+  // Any one of rpcUrl, provider or backend is enough for reading mail; sending needs a signer and proof too.
   rpcUrl?: string;
   provider?: JsonRpcProvider;
   signer?: Signer;
   encryption?: EncryptionManager;
-  storage?: IPFSClient;
+  storage?: StorageProvider;
+  storageProvider?: StorageProviderConfig;
+  // wraps the storage provider in a read-through cache; pass [memory, disk] for two tiers
+  packageCache?: PackageCache | PackageCache[];
   proofGenerator?: ProofGenerator;
   backend?: BackendAPI;
   cidStore?: CidStore;
   ipfs?: IPFSConfig;
   proof?: ProofConfig;
   recipientResolver?: RecipientResolver;
+  archivePublicKey?: string;
+  signMail?: boolean;
+  keystore?: FileKeystore;
+  // first block scanned for MailSent events when listing mailboxes; set it to the mailer's deployment block
+  eventStartBlock?: number;
+  logBlockRange?: number; // blocks per eth_getLogs call (default 10000)
+  // 'relay' hands proved mails to `backend`, which pays the gas; the signer only signs an authorization
+  submission?: 'direct' | 'relay';
 }
 
 export interface IPFSConfig {
@@ -28,13 +48,32 @@ export interface IPFSConfig {
   projectSecret?: string;
   pin?: boolean;
   compress?: boolean;
+  compression?: CompressionCodec;
+  compressionThreshold?: number;
   client?: IPFSHTTPClient;
+  pinningServices?: PinningServiceOptions[];
+  waitForRemotePins?: WaitForPinOptions;
+  retrievalSources?: (RetrievalSourceConfig | BlockSource)[];
+  retrievalTimeoutMs?: number;
+  hedgeDelayMs?: number;
 }
 
+// `ipfs` keeps the top-level `ipfs` block working; `local` and `s3` need no IPFS node.
+export type StorageProviderConfig =
+  | ({ type: 'ipfs' } & IPFSConfig)
+  | ({ type: 'local' } & LocalStorageOptions)
+  | ({ type: 's3' } & S3StorageOptions);
+
 export interface ProofConfig {
-  circuitPath: string;
-  provingKeyPath: string;
+  // circuit manifest (see circuit-manifest.ts); when set, artifact paths come from it and are checked by sha256
+  manifestPath?: string;
+  circuitPath?: string;
+  provingKeyPath?: string;
   verificationKeyPath?: string;
+  system?: ProofSystem; // default groth16
+  // prove on this many worker threads instead of the calling thread
+  workers?: number;
+  workerUrl?: URL | string;
 }
 
 export interface RecipientResolutionResult {
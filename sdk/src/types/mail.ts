@@ -1,10 +1,34 @@
+import type { ProvingProgressEvent } from '../zkproof/ProvingPool.js';
+
 export interface MailContent {
   from: string;
   to: string;
+  cc?: string[];
+  bcc?: string[];
   subject: string;
   body: string;
   timestamp?: number;
   attachments?: AttachmentMeta[];
+  signature?: MailSignature;
+}
+
+export interface MailSignature {
+  scheme: 'EIP-712';
+  signer: string; // address
+  contentHash: string; // bytes32 hex string
+  signature: string; // hex string
+}
+
+export interface SenderVerification {
+  verified: boolean;
+  signer?: string;
+  expectedSigner?: string;
+  reason?: 'unsigned' | 'invalid-signature' | 'signer-mismatch' | 'sender-mismatch';
+}
+
+export interface VerifiedMailContent {
+  content: MailContent;
+  sender: SenderVerification;
 }
 
 export interface AttachmentMeta {
@@ -12,33 +36,62 @@ export interface AttachmentMeta {
   mimeType: string;
   size: number;
   cid?: string;
+  sha256?: string; // hex digest of the plaintext
+  chunkSize?: number;
+  // hex key the attachment is sealed under; travels inside each package's encrypted content, so every package's own
+  // content key protects it. Unset on attachments sealed under the content key itself
+  key?: string;
+  keySalt?: string; // hex salt deriving the sealing key from `key`, or from the content key when that is unset
+  algorithm?: ContentAlgorithm;
 }
 
+export interface AttachmentInput {
+  name: string;
+  mimeType: string;
+  data: Uint8Array | AsyncIterable<Uint8Array>;
+}
+
+export type SendMailAttachment = AttachmentMeta | AttachmentInput;
+
 export interface MailMetadata {
   version: string;
-  timestamp: number;
-  size: number;
+  // omitted when the sender hides metadata; the timestamp then only lives in the encrypted MailContent
+  timestamp?: number;
+  size?: number;
   contentType: 'mail';
 }
 
+// Known values are listed for completion; suites registered at runtime may add others.
+export type ContentAlgorithm = 'AES-256-GCM' | 'ChaCha20-Poly1305' | 'XChaCha20-Poly1305' | (string & {});
+export type KeyAlgorithm = 'ECIES-secp256k1' | 'ECIES-X25519' | (string & {});
+
 export interface EncryptedContentPayload {
-  algorithm: 'AES-256-GCM';
+  algorithm: ContentAlgorithm;
   ciphertext: string; // hex string
   iv: string; // hex string
   authTag: string; // hex string
 }
 
 export interface EncryptedKeyPayload {
-  algorithm: 'ECIES-secp256k1';
+  algorithm: KeyAlgorithm;
   ephemeralPublicKey: string; // hex string
   ciphertext: string; // hex string
   mac: string; // hex string
 }
 
+export interface EncryptedArchivePayload {
+  encryptedKey: EncryptedKeyPayload;
+  encryptedContent: EncryptedContentPayload; // { contentKey, bcc } sealed for the sender only
+}
+
 export interface EncryptedMailPackage {
   version: string;
   encryptedContent: EncryptedContentPayload;
-  encryptedKey: EncryptedKeyPayload;
+  // one slot per recipient, unlabelled and shuffled so slots cannot be matched to addresses
+  encryptedKeys: EncryptedKeyPayload[];
+  // single-recipient slot written by 1.0 packages
+  encryptedKey?: EncryptedKeyPayload;
+  archive?: EncryptedArchivePayload;
   metadata: MailMetadata;
 }
 
@@ -49,12 +102,20 @@ export interface MailRecord {
   recipientEmail: string;
   timestamp: bigint;
   verified: boolean;
+  txHash?: string; // transaction that emitted MailSent
+  blockNumber?: number;
 }
 
 export interface SendMailParams {
   from: string;
   to: string;
+  cc?: string[];
+  bcc?: string[];
   subject: string;
   body: string;
-  attachments?: AttachmentMeta[];
+  attachments?: SendMailAttachment[];
+  archivePublicKey?: string;
+  // cancels proof generation; the mail is not sent
+  signal?: AbortSignal;
+  onProofProgress?: (event: ProvingProgressEvent) => void;
 }
@@ -1,10 +1,23 @@
 declare module 'snarkjs' {
-  export const groth16: {
+  // Anything fastfile can open: a path, or an in-memory buffer.
+  export type SnarkFile = string | { type: 'mem'; data?: Uint8Array };
+
+  // groth16, plonk and fflonk share the same entry points; only the proof and key shapes differ.
+  export interface SnarkProtocol {
     fullProve(
       inputs: Record<string, unknown>,
-      circuitPath: string,
-      provingKeyPath: string
+      circuitPath: SnarkFile,
+      provingKeyPath: SnarkFile
     ): Promise<{ proof: any; publicSignals: string[] }>;
+    prove(provingKey: SnarkFile, witness: SnarkFile): Promise<{ proof: any; publicSignals: string[] }>;
     verify(verificationKey: any, publicSignals: string[], proof: any): Promise<boolean>;
+  }
+
+  export const groth16: SnarkProtocol;
+  export const plonk: SnarkProtocol;
+  export const fflonk: SnarkProtocol;
+
+  export const wtns: {
+    calculate(inputs: Record<string, unknown>, circuit: SnarkFile, witness: SnarkFile): Promise<void>;
   };
 }
@@ -1,4 +1,10 @@
 import { keccak256, toUtf8Bytes } from 'ethers';
+import { CID } from 'multiformats/cid';
+import { create as createDigest } from 'multiformats/hashes/digest';
+
+const DAG_PB_CODE = 0x70;
+const RAW_CODE = 0x55;
+const SHA2_256_CODE = 0x12;
 
 export function toHex(buffer: Uint8Array | Buffer): string {
   return `0x${Buffer.from(buffer).toString('hex')}`;
@@ -11,9 +17,32 @@ export function fromHex(hex: string): Buffer {
   return Buffer.from(hex.slice(2), 'hex');
 }
 
+// On-chain contentCID convention: the raw sha2-256 digest of a dag-pb (v0 or v1) or raw CID.
+// Rebuilding always yields dag-pb; digest-addressed providers ignore the codec. Any other CID falls back to the legacy keccak256 of the CID string, which needs a CidStore to reverse.
 export function cidToBytes32(cid: string): string {
-  const hash = keccak256(toUtf8Bytes(cid));
-  return hash;
+  const parsed = parseCid(cid);
+  if (parsed && isReconstructible(parsed)) {
+    return toHex(parsed.multihash.digest);
+  }
+  return legacyCidToBytes32(cid);
+}
+
+export function legacyCidToBytes32(cid: string): string {
+  return keccak256(toUtf8Bytes(cid));
+}
+
+export function bytes32ToCid(bytes32: string): string {
+  assertHex(bytes32, 'contentCID');
+  const digest = fromHex(bytes32);
+  if (digest.length !== 32) {
+    throw new Error('contentCID must be 32 bytes');
+  }
+  return CID.createV1(DAG_PB_CODE, createDigest(SHA2_256_CODE, digest)).toString();
+}
+
+export function isReconstructibleCid(cid: string): boolean {
+  const parsed = parseCid(cid);
+  return Boolean(parsed && isReconstructible(parsed));
 }
 
 export function assertHex(input: string, label: string): void {
@@ -21,3 +50,28 @@ export function assertHex(input: string, label: string): void {
     throw new Error(`${label} must be a hex string`);
   }
 }
+
+// Local and S3 providers address blobs by the sha2-256 of their bytes, whatever codec the CID was written with.
+export function sha256CidDigest(cid: string): Buffer {
+  const parsed = parseCid(cid);
+  if (!parsed || parsed.multihash.code !== SHA2_256_CODE || parsed.multihash.digest.length !== 32) {
+    throw new Error(`${cid} is not a sha2-256 CID`);
+  }
+  return Buffer.from(parsed.multihash.digest);
+}
+
+export function rawCidFromDigest(digest: Uint8Array): string {
+  return CID.createV1(RAW_CODE, createDigest(SHA2_256_CODE, digest)).toString();
+}
+
+function parseCid(cid: string): CID | undefined {
+  try {
+    return CID.parse(cid);
+  } catch {
+    return undefined;
+  }
+}
+
+function isReconstructible(cid: CID): boolean {
+  return (cid.code === DAG_PB_CODE || cid.code === RAW_CODE) && cid.multihash.code === SHA2_256_CODE && cid.multihash.digest.length === 32;
+}
@@ -1,45 +1,104 @@
 import { readFile } from 'fs/promises';
-import { AbiCoder } from 'ethers';
 import type { ProofConfig } from '../types/config.js';
+import { EMAIL_OWNERSHIP_PUBLIC_SIGNALS } from './email-ownership.js';
+import { assertVerificationKeySystem, packProof, unpackProof, type ProofSystem } from './proof-systems.js';
+import { ProvingPool, type ProveOptions, type ProvingTimings } from './ProvingPool.js';
+import {
+  assertArtifactDigest,
+  assertPublicSignalCount,
+  readCircuitManifest,
+  readVerificationKey,
+  type CircuitManifest,
+  type ResolvedCircuit
+} from './circuit-manifest.js';
 
 export interface ProofResult {
   proof: string;
   publicSignals: string[];
+  timings?: ProvingTimings; // only reported by the worker pool
+}
+
+interface CircuitArtifacts {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
 }
 
 export class ProofGenerator {
   private snark: typeof import('snarkjs') | null = null;
   private verificationKey: any | null = null;
-  private readonly abi = new AbiCoder();
+  private circuit?: Promise<ResolvedCircuit | undefined>;
+  private artifacts?: Promise<CircuitArtifacts>;
+  private readonly pool?: ProvingPool;
+  readonly system: ProofSystem;
 
   constructor(private readonly config: ProofConfig) {
-    if (!config.circuitPath || !config.provingKeyPath) {
-      throw new Error('ProofGenerator requires circuit and proving key paths');
+    if (!config.manifestPath && (!config.circuitPath || !config.provingKeyPath)) {
+      throw new Error('ProofGenerator requires circuit and proving key paths or a circuit manifest');
+    }
+    this.system = config.system ?? 'groth16';
+    if (config.workers) {
+      this.pool = new ProvingPool({
+        system: this.system,
+        size: config.workers,
+        workerUrl: config.workerUrl,
+        readArtifacts: () => this.readArtifacts()
+      });
     }
   }
 
-  async generateProof(inputs: Record<string, unknown>): Promise<ProofResult> {
+  // Exposed so callers can subscribe to 'progress' and 'complete' events; undefined when proving in-thread.
+  get provingPool(): ProvingPool | undefined {
+    return this.pool;
+  }
+
+  // Reads and checks the circuit artifacts now instead of on the first proof, so a bad install fails at startup.
+  async load(): Promise<CircuitManifest | undefined> {
+    const circuit = await this.resolveCircuit();
+    await (this.pool ? this.pool.start() : this.loadArtifacts());
+    if (this.canVerify) await this.loadVerificationKey();
+    return circuit?.manifest;
+  }
+
+  async generateProof(inputs: Record<string, unknown>, options: ProveOptions = {}): Promise<ProofResult> {
+    if (this.pool) {
+      const { proof, publicSignals, timings } = await this.pool.prove(inputs, options);
+      return { proof: packProof(this.system, proof), publicSignals, timings };
+    }
+
+    if (options.signal?.aborted) {
+      throw new Error('Proof generation aborted');
+    }
     const snarkjs = await this.loadSnark();
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+    const { wasm, zkey } = await this.loadArtifacts();
+    const { proof, publicSignals } = await snarkjs[this.system].fullProve(
       inputs,
-      this.config.circuitPath,
-      this.config.provingKeyPath
+      { type: 'mem', data: wasm },
+      { type: 'mem', data: zkey }
     );
 
     return {
-      proof: this.packProof(proof),
+      proof: packProof(this.system, proof),
       publicSignals: publicSignals.map(String)
     };
   }
 
+  async close(): Promise<void> {
+    await this.pool?.close();
+  }
+
+  get canVerify(): boolean {
+    return Boolean(this.config.manifestPath || this.config.verificationKeyPath);
+  }
+
+  // Accepts either the snarkjs proof object or the ABI-encoded form returned by generateProof.
   async verifyProof(publicSignals: string[], proof: any): Promise<boolean> {
-    if (!this.config.verificationKeyPath) {
+    if (!this.canVerify) {
       throw new Error('Verification key path not provided');
     }
 
     const snarkjs = await this.loadSnark();
     const key = await this.loadVerificationKey();
-    return snarkjs.groth16.verify(key, publicSignals, proof);
+    return snarkjs[this.system].verify(key, publicSignals, typeof proof === 'string' ? unpackProof(this.system, proof) : proof);
   }
 
   private async loadSnark(): Promise<typeof import('snarkjs')> {
@@ -49,18 +108,57 @@ export class ProofGenerator {
     return this.snark;
   }
 
-  private async loadVerificationKey(): Promise<any> {
-    if (this.verificationKey) return this.verificationKey;
-    const file = await readFile(this.config.verificationKeyPath!, 'utf-8');
-    this.verificationKey = JSON.parse(file);
-    return this.verificationKey;
+  private resolveCircuit(): Promise<ResolvedCircuit | undefined> {
+    if (!this.circuit) {
+      this.circuit = this.config.manifestPath
+        ? readCircuitManifest(this.config.manifestPath).then((circuit) => {
+            assertPublicSignalCount(circuit, EMAIL_OWNERSHIP_PUBLIC_SIGNALS.length);
+            if (circuit.manifest.protocol && circuit.manifest.protocol !== this.system) {
+              const { id, version, protocol } = circuit.manifest;
+              throw new Error(`Circuit ${id}@${version} is a ${protocol} build, expected ${this.system}`);
+            }
+            return circuit;
+          })
+        : Promise.resolve(undefined);
+      this.circuit.catch(() => {
+        this.circuit = undefined;
+      });
+    }
+    return this.circuit;
+  }
+
+  // The bytes are checked after reading, so a file swapped between the check and the read cannot slip through.
+  private async readArtifacts(): Promise<CircuitArtifacts> {
+    const circuit = await this.resolveCircuit();
+    const [wasm, zkey] = await Promise.all([
+      readFile(circuit?.circuitPath ?? this.config.circuitPath!),
+      readFile(circuit?.provingKeyPath ?? this.config.provingKeyPath!)
+    ]);
+    if (circuit) {
+      assertArtifactDigest(circuit, 'wasm', wasm);
+      assertArtifactDigest(circuit, 'zkey', zkey);
+    }
+    return { wasm, zkey };
   }
 
-  private packProof(proof: any): string {
-    const piA = proof.pi_a.map((value: string) => BigInt(value));
-    const piB = proof.pi_b.map((row: string[]) => row.map((value) => BigInt(value)));
-    const piC = proof.pi_c.map((value: string) => BigInt(value));
+  private loadArtifacts(): Promise<CircuitArtifacts> {
+    if (!this.artifacts) {
+      this.artifacts = this.readArtifacts();
+      this.artifacts.catch(() => {
+        this.artifacts = undefined;
+      });
+    }
+    return this.artifacts;
+  }
 
-    return this.abi.encode(['uint256[2]', 'uint256[2][2]', 'uint256[2]'], [piA, piB, piC]);
+  private async loadVerificationKey(): Promise<any> {
+    if (this.verificationKey) return this.verificationKey;
+    const circuit = await this.resolveCircuit();
+    const key = circuit
+      ? await readVerificationKey(circuit, EMAIL_OWNERSHIP_PUBLIC_SIGNALS.length)
+      : JSON.parse(await readFile(this.config.verificationKeyPath!, 'utf-8'));
+    assertVerificationKeySystem(key, this.system);
+    this.verificationKey = key;
+    return key;
   }
 }
@@ -0,0 +1,322 @@
+import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+import os from 'os';
+import { Worker } from 'worker_threads';
+import type { ProofSystem } from './proof-systems.js';
+
+export type ProvingStage = 'queued' | 'witness' | 'proving' | 'done';
+
+export interface ProvingPoolOptions {
+  system?: ProofSystem; // default groth16
+  circuitPath?: string;
+  provingKeyPath?: string;
+  // replaces reading circuitPath and provingKeyPath, e.g. to check the bytes against a manifest first
+  readArtifacts?: () => Promise<{ wasm: Uint8Array; zkey: Uint8Array }>;
+  // number of worker threads, which is also the number of proofs generated at once
+  size?: number;
+  // compiled proving-worker.js; defaults to the copy shipped next to the bundle
+  workerUrl?: URL | string;
+}
+
+export interface ProveOptions {
+  signal?: AbortSignal;
+  onProgress?: (event: ProvingProgressEvent) => void;
+}
+
+export interface ProvingProgressEvent {
+  jobId: number;
+  stage: ProvingStage;
+  elapsedMs: number; // since the job was queued
+}
+
+export interface ProvingTimings {
+  jobId: number;
+  queuedMs: number;
+  witnessMs: number;
+  provingMs: number;
+  totalMs: number;
+}
+
+export interface PooledProofResult {
+  proof: any;
+  publicSignals: string[];
+  timings: ProvingTimings;
+}
+
+// Messages exchanged with proving-worker.ts.
+export interface ProvingWorkerData {
+  system: ProofSystem;
+  wasm: SharedArrayBuffer;
+  zkey: SharedArrayBuffer;
+}
+
+export type ProvingWorkerRequest = { type: 'prove'; jobId: number; inputs: Record<string, unknown> };
+
+export type ProvingWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'progress'; jobId: number; stage: 'witness' | 'proving' }
+  | { type: 'result'; jobId: number; proof: any; publicSignals: string[] }
+  | { type: 'error'; jobId?: number; message: string };
+
+interface Job {
+  id: number;
+  inputs: Record<string, unknown>;
+  options: ProveOptions;
+  queuedAt: number;
+  startedAt?: number;
+  provingAt?: number;
+  resolve(result: PooledProofResult): void;
+  reject(error: Error): void;
+  detach(): void;
+}
+
+interface Slot {
+  worker: Worker;
+  ready: Promise<void>;
+  isReady: boolean;
+  retiring?: boolean; // terminated after an abort, waiting for 'exit' to respawn
+  job?: Job;
+}
+
+// Events: 'progress' (ProvingProgressEvent), 'complete' (ProvingTimings), 'error' ({ jobId, error }).
+export class ProvingPool extends EventEmitter {
+  private readonly size: number;
+  private readonly workerUrl: URL | string;
+  private readonly queue: Job[] = [];
+  private slots: Slot[] = [];
+  private artifacts?: ProvingWorkerData;
+  private starting?: Promise<void>;
+  private closed = false;
+  private nextJobId = 1;
+
+  constructor(private readonly options: ProvingPoolOptions) {
+    super();
+    if (!options.readArtifacts && (!options.circuitPath || !options.provingKeyPath)) {
+      throw new Error('ProvingPool requires circuit and proving key paths');
+    }
+    this.size = Math.max(1, options.size ?? Math.min(2, cpuCount() - 1));
+    this.workerUrl = options.workerUrl ?? new URL('./proving-worker.js', import.meta.url);
+  }
+
+  // Reads the circuit artifacts once and boots every worker; prove() calls this on first use.
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.boot();
+      this.starting.catch(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  async prove(inputs: Record<string, unknown>, options: ProveOptions = {}): Promise<PooledProofResult> {
+    if (this.closed) throw new Error('ProvingPool is closed');
+    if (options.signal?.aborted) throw abortError();
+    await this.start();
+    // the signal may have fired while the workers were booting
+    if (options.signal?.aborted) throw abortError();
+
+    return new Promise<PooledProofResult>((resolve, reject) => {
+      const onAbort = () => this.abort(job);
+      const job: Job = {
+        id: this.nextJobId++,
+        inputs,
+        options,
+        queuedAt: Date.now(),
+        resolve,
+        reject,
+        detach: () => options.signal?.removeEventListener('abort', onAbort)
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(job);
+      this.report(job, 'queued');
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      this.settle(job, new Error('ProvingPool is closed'));
+    }
+    const slots = this.slots;
+    this.slots = [];
+    for (const slot of slots) {
+      if (slot.job) this.settle(slot.job, new Error('ProvingPool is closed'));
+    }
+    await Promise.all(slots.map((slot) => slot.worker.terminate()));
+  }
+
+  private async boot(): Promise<void> {
+    const { wasm, zkey } = this.options.readArtifacts
+      ? await this.options.readArtifacts()
+      : { wasm: await readFile(this.options.circuitPath!), zkey: await readFile(this.options.provingKeyPath!) };
+    // shared once here instead of every worker (and every proof) reading the files again
+    this.artifacts = { system: this.options.system ?? 'groth16', wasm: toShared(wasm), zkey: toShared(zkey) };
+    this.slots = Array.from({ length: this.size }, () => this.spawn());
+    const booted = await Promise.allSettled(this.slots.map((slot) => slot.ready));
+    const failure = booted.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    // one worker is enough to make progress; the pool only fails to start when none boots
+    if (failure && booted.every((result) => result.status === 'rejected')) {
+      throw failure.reason;
+    }
+  }
+
+  private spawn(): Slot {
+    const worker = new Worker(this.workerUrl, { workerData: this.artifacts });
+    let markReady!: () => void;
+    let failStart!: (error: Error) => void;
+    const slot: Slot = {
+      worker,
+      isReady: false,
+      ready: new Promise<void>((resolve, reject) => {
+        markReady = resolve;
+        failStart = reject;
+      })
+    };
+
+    let lastError: Error | undefined;
+    worker.on('message', (message: ProvingWorkerMessage) => {
+      if (message.type === 'error' && message.jobId === undefined) {
+        lastError = new Error(message.message);
+        return;
+      }
+      if (message.type === 'ready') {
+        slot.isReady = true;
+        markReady();
+        this.dispatch();
+        return;
+      }
+      const job = slot.job;
+      if (!job || message.jobId !== job.id) return;
+
+      if (message.type === 'progress') {
+        if (message.stage === 'proving') job.provingAt = Date.now();
+        this.report(job, message.stage);
+      } else if (message.type === 'result') {
+        slot.job = undefined;
+        const timings = this.timings(job);
+        job.detach();
+        job.resolve({ proof: message.proof, publicSignals: message.publicSignals, timings });
+        this.report(job, 'done');
+        this.emit('complete', timings);
+        this.dispatch();
+      } else {
+        slot.job = undefined;
+        this.settle(job, new Error(message.message));
+        this.dispatch();
+      }
+    });
+
+    worker.on('error', (error) => {
+      lastError = error;
+      failStart(error);
+      if (slot.job) this.settle(slot.job, error);
+      slot.job = undefined;
+    });
+
+    worker.on('exit', () => {
+      failStart(lastError ?? new Error('Proving worker exited before it was ready'));
+      this.replace(slot, lastError);
+    });
+
+    // keeps an unhandled rejection from surfacing when nobody awaits a respawned worker
+    slot.ready.catch(() => undefined);
+    return slot;
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (this.queue.length === 0) return;
+      // a worker that is still booting picks up work from its 'ready' message
+      if (slot.job || !slot.isReady || slot.retiring) continue;
+
+      const job = this.queue.shift()!;
+      job.startedAt = Date.now();
+      slot.job = job;
+      const request: ProvingWorkerRequest = { type: 'prove', jobId: job.id, inputs: job.inputs };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  private abort(job: Job): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.settle(job, abortError());
+      return;
+    }
+    // snarkjs cannot be interrupted mid-proof, so the worker running the job is replaced
+    const slot = this.slots.find((candidate) => candidate.job === job);
+    if (slot) {
+      slot.job = undefined;
+      slot.retiring = true;
+      this.settle(job, abortError());
+      void slot.worker.terminate();
+    }
+  }
+
+  private replace(slot: Slot, cause?: Error): void {
+    const index = this.slots.indexOf(slot);
+    if (index < 0 || this.closed) return;
+    if (slot.job) {
+      this.settle(slot.job, new Error('Proving worker exited unexpectedly'));
+    }
+    if (slot.isReady) {
+      this.slots[index] = this.spawn();
+      return;
+    }
+
+    // a worker that cannot even boot will not do better on a retry; drop the slot instead of respawning forever
+    this.slots.splice(index, 1);
+    if (this.slots.length === 0) {
+      const error = new Error(`No proving worker could start${cause ? `: ${cause.message}` : ''}`);
+      for (const job of this.queue.splice(0)) this.settle(job, error);
+      this.starting = undefined;
+    }
+  }
+
+  private settle(job: Job, error: Error): void {
+    job.detach();
+    job.reject(error);
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', { jobId: job.id, error });
+    }
+  }
+
+  private report(job: Job, stage: ProvingStage): void {
+    const event: ProvingProgressEvent = { jobId: job.id, stage, elapsedMs: Date.now() - job.queuedAt };
+    job.options.onProgress?.(event);
+    this.emit('progress', event);
+  }
+
+  private timings(job: Job): ProvingTimings {
+    const now = Date.now();
+    const startedAt = job.startedAt ?? job.queuedAt;
+    const provingAt = job.provingAt ?? startedAt;
+    return {
+      jobId: job.id,
+      queuedMs: startedAt - job.queuedAt,
+      witnessMs: provingAt - startedAt,
+      provingMs: now - provingAt,
+      totalMs: now - job.queuedAt
+    };
+  }
+}
+
+// os.availableParallelism arrived in Node 18.14
+function cpuCount(): number {
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+function toShared(data: Uint8Array): SharedArrayBuffer {
+  const shared = new SharedArrayBuffer(data.length);
+  new Uint8Array(shared).set(data);
+  return shared;
+}
+
+function abortError(): Error {
+  const error = new Error('Proof generation aborted');
+  error.name = 'AbortError';
+  return error;
+}
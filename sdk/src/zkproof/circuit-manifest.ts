@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { isProofSystem, type ProofSystem } from './proof-systems.js';
+
+// Describes one build of a circuit so the wasm, zkey and verification key can be checked to belong together
+// before they are used. Artifact paths are relative to the manifest file.
+export interface CircuitManifest {
+  id: string;
+  version: string;
+  protocol?: ProofSystem; // proof system the zkey was set up for
+  publicSignals: number;
+  wasm: CircuitArtifact;
+  zkey: CircuitArtifact;
+  vkey: CircuitArtifact;
+}
+
+export interface CircuitArtifact {
+  path: string;
+  sha256: string; // lowercase hex
+}
+
+export type CircuitArtifactName = 'wasm' | 'zkey' | 'vkey';
+
+export interface ResolvedCircuit {
+  manifestPath: string;
+  manifest: CircuitManifest;
+  circuitPath: string;
+  provingKeyPath: string;
+  verificationKeyPath: string;
+}
+
+export interface CreateCircuitManifestOptions {
+  id: string;
+  version: string;
+  directory: string; // where the manifest will be written; artifact paths are stored relative to it
+  wasm: string;
+  zkey: string;
+  vkey: string;
+}
+
+export interface CircuitCheckResult {
+  manifestPath: string;
+  id?: string;
+  version?: string;
+  problems: string[];
+}
+
+export const CIRCUIT_ARTIFACTS: readonly CircuitArtifactName[] = ['wasm', 'zkey', 'vkey'];
+
+export async function readCircuitManifest(manifestPath: string): Promise<ResolvedCircuit> {
+  const resolvedPath = path.resolve(manifestPath);
+  let manifest: CircuitManifest;
+  try {
+    manifest = JSON.parse(await readFile(resolvedPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Unable to read circuit manifest ${resolvedPath}: ${(error as Error).message}`);
+  }
+  assertManifestShape(manifest, resolvedPath);
+
+  const directory = path.dirname(resolvedPath);
+  return {
+    manifestPath: resolvedPath,
+    manifest,
+    circuitPath: path.resolve(directory, manifest.wasm.path),
+    provingKeyPath: path.resolve(directory, manifest.zkey.path),
+    verificationKeyPath: path.resolve(directory, manifest.vkey.path)
+  };
+}
+
+export function assertArtifactDigest(circuit: ResolvedCircuit, name: CircuitArtifactName, data: Uint8Array): void {
+  const actual = createHash('sha256').update(data).digest('hex');
+  const expected = circuit.manifest[name].sha256.toLowerCase();
+  if (actual !== expected) {
+    throw new Error(
+      `${describe(circuit)} ${name} file ${circuit.manifest[name].path} does not match its manifest (sha256 ${actual}, expected ${expected})`
+    );
+  }
+}
+
+// Reads the verification key and checks it against the manifest and, when given, the signal count the caller
+// builds public inputs for.
+export async function readVerificationKey(circuit: ResolvedCircuit, expectedPublicSignals?: number): Promise<any> {
+  const data = await readFile(circuit.verificationKeyPath);
+  assertArtifactDigest(circuit, 'vkey', data);
+  const key = JSON.parse(data.toString('utf-8'));
+  if (circuit.manifest.protocol && key.protocol !== circuit.manifest.protocol) {
+    throw new Error(`${describe(circuit)} verification key is for ${key.protocol}, manifest says ${circuit.manifest.protocol}`);
+  }
+  if (key.nPublic !== circuit.manifest.publicSignals) {
+    throw new Error(`${describe(circuit)} verification key has ${key.nPublic} public signals, manifest says ${circuit.manifest.publicSignals}`);
+  }
+  assertPublicSignalCount(circuit, expectedPublicSignals);
+  return key;
+}
+
+export function assertPublicSignalCount(circuit: ResolvedCircuit, expectedPublicSignals?: number): void {
+  if (expectedPublicSignals !== undefined && circuit.manifest.publicSignals !== expectedPublicSignals) {
+    throw new Error(
+      `${describe(circuit)} has ${circuit.manifest.publicSignals} public signals, this SDK expects ${expectedPublicSignals}`
+    );
+  }
+}
+
+// Hashes every artifact without loading it whole, for tooling that checks circuits it will not prove with.
+export async function checkCircuit(manifestPath: string, expectedPublicSignals?: number): Promise<CircuitCheckResult> {
+  let circuit: ResolvedCircuit;
+  try {
+    circuit = await readCircuitManifest(manifestPath);
+  } catch (error) {
+    return { manifestPath: path.resolve(manifestPath), problems: [(error as Error).message] };
+  }
+
+  const problems: string[] = [];
+  const paths: Record<CircuitArtifactName, string> = {
+    wasm: circuit.circuitPath,
+    zkey: circuit.provingKeyPath,
+    vkey: circuit.verificationKeyPath
+  };
+  for (const name of CIRCUIT_ARTIFACTS) {
+    try {
+      const actual = await sha256File(paths[name]);
+      if (actual !== circuit.manifest[name].sha256.toLowerCase()) {
+        problems.push(`${name} file ${circuit.manifest[name].path} does not match its manifest (sha256 ${actual})`);
+      }
+    } catch (error) {
+      problems.push(`${name} file ${circuit.manifest[name].path} is unreadable: ${(error as Error).message}`);
+    }
+  }
+  if (problems.length === 0) {
+    try {
+      await readVerificationKey(circuit, expectedPublicSignals);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  return { manifestPath: circuit.manifestPath, id: circuit.manifest.id, version: circuit.manifest.version, problems };
+}
+
+// Manifests are `manifest.json` or `<name>.manifest.json` files at the top of the directory.
+export async function findCircuitManifests(directory: string): Promise<string[]> {
+  const files = await readdir(directory);
+  return files
+    .filter((file) => file === 'manifest.json' || file.endsWith('.manifest.json'))
+    .sort()
+    .map((file) => path.resolve(directory, file));
+}
+
+export async function createCircuitManifest(options: CreateCircuitManifestOptions): Promise<CircuitManifest> {
+  const directory = path.resolve(options.directory);
+  const artifact = async (file: string): Promise<CircuitArtifact> => ({
+    path: path.relative(directory, path.resolve(file)).split(path.sep).join('/'),
+    sha256: await sha256File(file)
+  });
+  const vkey = JSON.parse(await readFile(options.vkey, 'utf-8'));
+  if (typeof vkey.nPublic !== 'number') {
+    throw new Error(`${options.vkey} is not a snarkjs verification key`);
+  }
+
+  return {
+    id: options.id,
+    version: options.version,
+    ...(isProofSystem(vkey.protocol) && { protocol: vkey.protocol }),
+    publicSignals: vkey.nPublic,
+    wasm: await artifact(options.wasm),
+    zkey: await artifact(options.zkey),
+    vkey: await artifact(options.vkey)
+  };
+}
+
+export async function sha256File(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(file)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function assertManifestShape(manifest: CircuitManifest, manifestPath: string): void {
+  const invalid = (field: string) => new Error(`Circuit manifest ${manifestPath} has no valid ${field}`);
+  if (!manifest || typeof manifest !== 'object') throw invalid('content');
+  if (typeof manifest.id !== 'string' || !manifest.id) throw invalid('id');
+  if (typeof manifest.version !== 'string' || !manifest.version) throw invalid('version');
+  if (manifest.protocol !== undefined && !isProofSystem(manifest.protocol)) throw invalid('protocol');
+  if (!Number.isInteger(manifest.publicSignals) || manifest.publicSignals < 0) throw invalid('publicSignals');
+  for (const name of CIRCUIT_ARTIFACTS) {
+    const artifact = manifest[name];
+    if (!artifact || typeof artifact.path !== 'string' || !/^[0-9a-fA-F]{64}$/.test(artifact.sha256 ?? '')) {
+      throw invalid(name);
+    }
+  }
+}
+
+function describe(circuit: ResolvedCircuit): string {
+  return `Circuit ${circuit.manifest.id}@${circuit.manifest.version}`;
+}
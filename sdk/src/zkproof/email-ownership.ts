@@ -0,0 +1,54 @@
+import { getAddress, keccak256, toUtf8Bytes } from 'ethers';
+
+// Single source of truth for the email-ownership circuit's interface; the client builds its witness and the
+// service rebuilds the public signals from here, so the two cannot drift apart again.
+
+// Order of the scalar field of BN254 (alt_bn128), the curve snarkjs and the EVM precompiles use.
+export const BN254_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// Public signals in the order the circuit declares them.
+export const EMAIL_OWNERSHIP_PUBLIC_SIGNALS = ['senderAddress', 'contentCID', 'senderEmailHash'] as const;
+
+export type EmailOwnershipSignal = (typeof EMAIL_OWNERSHIP_PUBLIC_SIGNALS)[number];
+
+export interface EmailOwnershipStatement {
+  senderAddress: string; // registry owner of senderEmail
+  senderEmail: string;
+  contentCID: string; // bytes32 as stored on chain
+}
+
+// Circuit inputs keyed by signal name, as decimal field elements.
+export type EmailOwnershipInputs = Record<EmailOwnershipSignal, string>;
+
+// 256-bit values (keccak hashes, sha2-256 CID digests) do not fit the ~254-bit field and are reduced mod r.
+export function toFieldElement(value: string | bigint): bigint {
+  return BigInt(value) % BN254_SCALAR_FIELD;
+}
+
+export function hashToField(text: string): bigint {
+  return toFieldElement(keccak256(toUtf8Bytes(text)));
+}
+
+export function emailOwnershipInputs(statement: EmailOwnershipStatement): EmailOwnershipInputs {
+  return {
+    senderAddress: BigInt(getAddress(statement.senderAddress)).toString(),
+    contentCID: toFieldElement(statement.contentCID).toString(),
+    senderEmailHash: hashToField(statement.senderEmail).toString()
+  };
+}
+
+export function emailOwnershipPublicSignals(statement: EmailOwnershipStatement): string[] {
+  const inputs = emailOwnershipInputs(statement);
+  return EMAIL_OWNERSHIP_PUBLIC_SIGNALS.map((signal) => inputs[signal]);
+}
+
+export function assertEmailOwnershipSignals(publicSignals: string[], statement: EmailOwnershipStatement): void {
+  const expected = emailOwnershipPublicSignals(statement);
+  if (publicSignals.length !== expected.length) {
+    throw new Error(`Circuit produced ${publicSignals.length} public signals, expected ${expected.length}`);
+  }
+  const mismatch = EMAIL_OWNERSHIP_PUBLIC_SIGNALS.find((_, index) => BigInt(publicSignals[index]) !== BigInt(expected[index]));
+  if (mismatch) {
+    throw new Error(`Proof public signal ${mismatch} does not match the mail being sent`);
+  }
+}
@@ -0,0 +1,131 @@
+import { AbiCoder } from 'ethers';
+
+// groth16 needs a trusted setup per circuit; plonk and fflonk reuse a universal powers-of-tau setup.
+export type ProofSystem = 'groth16' | 'plonk' | 'fflonk';
+
+export const PROOF_SYSTEMS: readonly ProofSystem[] = ['groth16', 'plonk', 'fflonk'];
+
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+}
+
+export interface PlonkProof {
+  A: string[];
+  B: string[];
+  C: string[];
+  Z: string[];
+  T1: string[];
+  T2: string[];
+  T3: string[];
+  Wxi: string[];
+  Wxiw: string[];
+  eval_a: string;
+  eval_b: string;
+  eval_c: string;
+  eval_s1: string;
+  eval_s2: string;
+  eval_zw: string;
+}
+
+export interface FflonkProof {
+  polynomials: Record<(typeof FFLONK_POLYNOMIALS)[number], string[]>;
+  evaluations: Record<(typeof FFLONK_EVALUATIONS)[number], string>;
+}
+
+const abiCoder = new AbiCoder();
+const GROTH16_ABI = ['uint256[2]', 'uint256[2][2]', 'uint256[2]'];
+// plonk and fflonk verifiers generated by snarkjs both take the proof as uint256[24]
+const UNIVERSAL_ABI = ['uint256[24]'];
+
+// Calldata order of the snarkjs-generated Solidity verifiers (exportSolidityCallData).
+const PLONK_POINTS = ['A', 'B', 'C', 'Z', 'T1', 'T2', 'T3', 'Wxi', 'Wxiw'] as const;
+const PLONK_EVALUATIONS = ['eval_a', 'eval_b', 'eval_c', 'eval_s1', 'eval_s2', 'eval_zw'] as const;
+const FFLONK_POLYNOMIALS = ['C1', 'C2', 'W1', 'W2'] as const;
+const FFLONK_EVALUATIONS = [
+  'ql', 'qr', 'qm', 'qo', 'qc', 's1', 's2', 's3', 'a', 'b', 'c', 'z', 'zw', 't1w', 't2w', 'inv'
+] as const;
+
+export function isProofSystem(value: unknown): value is ProofSystem {
+  return PROOF_SYSTEMS.includes(value as ProofSystem);
+}
+
+// Encodes a snarkjs proof object the way the on-chain verifier for `system` expects it.
+export function packProof(system: ProofSystem, proof: any): string {
+  switch (system) {
+    case 'groth16':
+      return packGroth16Proof(proof);
+    case 'plonk':
+      return abiCoder.encode(UNIVERSAL_ABI, [
+        [...PLONK_POINTS.flatMap((point) => proof[point].slice(0, 2)), ...PLONK_EVALUATIONS.map((field) => proof[field])].map(BigInt)
+      ]);
+    case 'fflonk':
+      return abiCoder.encode(UNIVERSAL_ABI, [
+        [
+          ...FFLONK_POLYNOMIALS.flatMap((name) => proof.polynomials[name].slice(0, 2)),
+          ...FFLONK_EVALUATIONS.map((name) => proof.evaluations[name])
+        ].map(BigInt)
+      ]);
+    default:
+      throw new Error(`Unsupported proof system ${system as string}`);
+  }
+}
+
+// Restores the snarkjs proof object from packProof's output so it can be verified off chain.
+export function unpackProof(system: ProofSystem, encoded: string): any {
+  if (system === 'groth16') {
+    return unpackGroth16Proof(encoded);
+  }
+  if (system !== 'plonk' && system !== 'fflonk') {
+    throw new Error(`Unsupported proof system ${system as string}`);
+  }
+
+  const [values] = abiCoder.decode(UNIVERSAL_ABI, encoded);
+  const words = (values as bigint[]).map((value) => value.toString());
+  // points travel as affine (x, y); snarkjs expects projective coordinates with z = 1
+  const point = (index: number) => [words[index * 2], words[index * 2 + 1], '1'];
+
+  if (system === 'plonk') {
+    const proof: Record<string, unknown> = { protocol: 'plonk', curve: 'bn128' };
+    PLONK_POINTS.forEach((name, index) => (proof[name] = point(index)));
+    PLONK_EVALUATIONS.forEach((name, index) => (proof[name] = words[PLONK_POINTS.length * 2 + index]));
+    return proof;
+  }
+  return {
+    protocol: 'fflonk',
+    curve: 'bn128',
+    polynomials: Object.fromEntries(FFLONK_POLYNOMIALS.map((name, index) => [name, point(index)])),
+    evaluations: Object.fromEntries(
+      FFLONK_EVALUATIONS.map((name, index) => [name, words[FFLONK_POLYNOMIALS.length * 2 + index]])
+    )
+  };
+}
+
+export function packGroth16Proof(proof: Groth16Proof): string {
+  return abiCoder.encode(GROTH16_ABI, [
+    proof.pi_a.slice(0, 2).map(BigInt),
+    proof.pi_b.slice(0, 2).map((row) => row.map(BigInt)),
+    proof.pi_c.slice(0, 2).map(BigInt)
+  ]);
+}
+
+// snarkjs expects projective coordinates, so the implied z = 1 is restored.
+export function unpackGroth16Proof(encoded: string): Groth16Proof & { protocol: 'groth16'; curve: 'bn128' } {
+  const [piA, piB, piC] = abiCoder.decode(GROTH16_ABI, encoded);
+  const toStrings = (values: bigint[]) => values.map((value) => value.toString());
+  return {
+    pi_a: [...toStrings(piA), '1'],
+    pi_b: [...piB.map((row: bigint[]) => toStrings(row)), ['1', '0']],
+    pi_c: [...toStrings(piC), '1'],
+    protocol: 'groth16',
+    curve: 'bn128'
+  };
+}
+
+// snarkjs verification keys name their protocol; a key for another system would reject every proof.
+export function assertVerificationKeySystem(verificationKey: any, system: ProofSystem): void {
+  if (verificationKey?.protocol !== system) {
+    throw new Error(`Verification key is for ${verificationKey?.protocol ?? 'an unknown protocol'}, expected ${system}`);
+  }
+}
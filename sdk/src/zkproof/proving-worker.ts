@@ -0,0 +1,38 @@
+import { parentPort, workerData } from 'worker_threads';
+import type { ProvingWorkerData, ProvingWorkerMessage, ProvingWorkerRequest } from './ProvingPool.js';
+
+// Worker entry for ProvingPool: keeps the circuit artifacts in memory and proves one job at a time.
+const port = parentPort!;
+const data = workerData as ProvingWorkerData;
+// private copies: WebAssembly refuses to compile from shared memory
+const wasm = new Uint8Array(data.wasm).slice();
+const zkey = new Uint8Array(data.zkey).slice();
+
+const post = (message: ProvingWorkerMessage) => port.postMessage(message);
+
+import('snarkjs').then(
+  (snarkjs) => {
+    port.on('message', async (request: ProvingWorkerRequest) => {
+      try {
+        post({ type: 'progress', jobId: request.jobId, stage: 'witness' });
+        const witness: { type: 'mem'; data?: Uint8Array } = { type: 'mem' };
+        await snarkjs.wtns.calculate(request.inputs, { type: 'mem', data: wasm }, witness);
+
+        post({ type: 'progress', jobId: request.jobId, stage: 'proving' });
+        const { proof, publicSignals } = await snarkjs[data.system].prove({ type: 'mem', data: zkey }, witness);
+        post({ type: 'result', jobId: request.jobId, proof, publicSignals: publicSignals.map(String) });
+      } catch (error) {
+        post({ type: 'error', jobId: request.jobId, message: errorMessage(error) });
+      }
+    });
+    post({ type: 'ready' });
+  },
+  (error) => {
+    post({ type: 'error', message: errorMessage(error) });
+    process.exit(1);
+  }
+);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import { bytes32ToCid, cidToBytes32, isReconstructibleCid } from '../src/utils/bytes.js';
+
+const cidV0 = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const cidV1 = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+describe('CID encoding', () => {
+  it('stores the sha2-256 digest so the CID can be rebuilt from chain data', () => {
+    const contentCID = cidToBytes32(cidV0);
+    expect(contentCID).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(cidToBytes32(cidV1)).toEqual(contentCID);
+    expect(bytes32ToCid(contentCID)).toEqual(cidV1);
+  });
+
+  it('accepts raw CIDs from digest-addressed providers', () => {
+    const rawCid = 'bafkreie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+    expect(isReconstructibleCid(rawCid)).toBe(true);
+    expect(cidToBytes32(rawCid)).toEqual(cidToBytes32(cidV1));
+  });
+
+  it('keeps the legacy keccak encoding for CIDs that cannot be rebuilt', () => {
+    const dagCborCid = 'bafyreie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+    expect(isReconstructibleCid(dagCborCid)).toBe(false);
+    expect(cidToBytes32(dagCborCid)).toEqual(keccak256(toUtf8Bytes(dagCborCid)));
+  });
+});
@@ -0,0 +1,135 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AbiCoder, keccak256, toUtf8Bytes } from 'ethers';
+import { checkCircuit, createCircuitManifest, readCircuitManifest, readVerificationKey } from '../src/zkproof/circuit-manifest.js';
+import { ProofGenerator } from '../src/zkproof/ProofGenerator.js';
+import {
+  BN254_SCALAR_FIELD,
+  EMAIL_OWNERSHIP_PUBLIC_SIGNALS,
+  assertEmailOwnershipSignals,
+  emailOwnershipInputs,
+  emailOwnershipPublicSignals
+} from '../src/zkproof/email-ownership.js';
+import { packGroth16Proof, packProof, unpackGroth16Proof, unpackProof } from '../src/zkproof/proof-systems.js';
+
+const statement = {
+  senderAddress: '0x00000000000000000000000000000000000000aa',
+  senderEmail: 'alice.base.eth@basemailer.com',
+  contentCID: `0x${'ff'.repeat(32)}`
+};
+
+describe('email ownership circuit schema', () => {
+  it('reduces 256-bit values into the BN254 scalar field', () => {
+    const inputs = emailOwnershipInputs(statement);
+    expect(Object.keys(inputs)).toEqual([...EMAIL_OWNERSHIP_PUBLIC_SIGNALS]);
+    expect(inputs.senderAddress).toEqual('170');
+    expect(BigInt(inputs.contentCID)).toEqual(BigInt(statement.contentCID) % BN254_SCALAR_FIELD);
+    expect(BigInt(inputs.senderEmailHash)).toEqual(BigInt(keccak256(toUtf8Bytes(statement.senderEmail))) % BN254_SCALAR_FIELD);
+    for (const value of Object.values(inputs)) {
+      expect(BigInt(value) < BN254_SCALAR_FIELD).toBe(true);
+    }
+  });
+
+  it('rejects proofs whose public signals belong to a different mail', () => {
+    const signals = emailOwnershipPublicSignals(statement);
+    expect(() => assertEmailOwnershipSignals(signals, statement)).not.toThrow();
+    expect(() => assertEmailOwnershipSignals(signals, { ...statement, contentCID: `0x${'01'.repeat(32)}` })).toThrow(
+      'public signal contentCID'
+    );
+    expect(() => assertEmailOwnershipSignals(signals.slice(1), statement)).toThrow('expected 3');
+  });
+
+  it('packs snarkjs proofs for the contract and restores them for verification', () => {
+    const proof = { pi_a: ['1', '2', '1'], pi_b: [['3', '4'], ['5', '6'], ['1', '0']], pi_c: ['7', '8', '1'] };
+    expect(unpackGroth16Proof(packGroth16Proof(proof))).toMatchObject(proof);
+  });
+
+  it('packs plonk and fflonk proofs as the uint256[24] calldata of their snarkjs verifiers', () => {
+    const point = (n: number) => [String(n), String(n + 1), '1'];
+    const plonk = {
+      A: point(1),
+      B: point(3),
+      C: point(5),
+      Z: point(7),
+      T1: point(9),
+      T2: point(11),
+      T3: point(13),
+      Wxi: point(15),
+      Wxiw: point(17),
+      eval_a: '19',
+      eval_b: '20',
+      eval_c: '21',
+      eval_s1: '22',
+      eval_s2: '23',
+      eval_zw: '24'
+    };
+    const packed = packProof('plonk', plonk);
+    expect(AbiCoder.defaultAbiCoder().decode(['uint256[24]'], packed)[0].map(Number)).toEqual(
+      Array.from({ length: 24 }, (_, index) => index + 1)
+    );
+    expect(unpackProof('plonk', packed)).toEqual({ ...plonk, protocol: 'plonk', curve: 'bn128' });
+
+    const evaluations = ['ql', 'qr', 'qm', 'qo', 'qc', 's1', 's2', 's3', 'a', 'b', 'c', 'z', 'zw', 't1w', 't2w', 'inv'];
+    const fflonk = {
+      polynomials: { C1: point(1), C2: point(3), W1: point(5), W2: point(7) },
+      evaluations: Object.fromEntries(evaluations.map((name, index) => [name, String(index + 9)]))
+    };
+    const packedFflonk = packProof('fflonk', fflonk);
+    expect(AbiCoder.defaultAbiCoder().decode(['uint256[24]'], packedFflonk)[0][8]).toEqual(9n);
+    expect(unpackProof('fflonk', packedFflonk)).toEqual({ ...fflonk, protocol: 'fflonk', curve: 'bn128' });
+  });
+});
+
+describe('circuit manifest', () => {
+  let dir: string;
+  let manifestPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'basemailer-circuit-'));
+    await writeFile(path.join(dir, 'email.wasm'), 'wasm v2');
+    await writeFile(path.join(dir, 'email.zkey'), 'zkey v2');
+    await writeFile(path.join(dir, 'email_vkey.json'), JSON.stringify({ protocol: 'groth16', nPublic: 3 }));
+    const manifest = await createCircuitManifest({
+      id: 'email-ownership',
+      version: '2.0.0',
+      directory: dir,
+      wasm: path.join(dir, 'email.wasm'),
+      zkey: path.join(dir, 'email.zkey'),
+      vkey: path.join(dir, 'email_vkey.json')
+    });
+    manifestPath = path.join(dir, 'email-ownership.manifest.json');
+    await writeFile(manifestPath, JSON.stringify(manifest));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records relative paths and checksums that verify', async () => {
+    const circuit = await readCircuitManifest(manifestPath);
+    expect(circuit.manifest).toMatchObject({ publicSignals: 3, zkey: { path: 'email.zkey' } });
+    expect(circuit.provingKeyPath).toEqual(path.join(dir, 'email.zkey'));
+    await expect(readVerificationKey(circuit, 3)).resolves.toMatchObject({ nPublic: 3 });
+    await expect(checkCircuit(manifestPath, 3)).resolves.toMatchObject({ id: 'email-ownership', problems: [] });
+    await expect(new ProofGenerator({ manifestPath }).load()).resolves.toMatchObject({ version: '2.0.0' });
+  });
+
+  it('refuses swapped artifacts and circuits with a different signal count', async () => {
+    await writeFile(path.join(dir, 'email.zkey'), 'zkey v1');
+    const result = await checkCircuit(manifestPath, 3);
+    expect(result.problems).toHaveLength(1);
+    expect(result.problems[0]).toContain('zkey file email.zkey does not match');
+    await expect(new ProofGenerator({ manifestPath }).load()).rejects.toThrow('email-ownership@2.0.0 zkey file');
+
+    const circuit = await readCircuitManifest(manifestPath);
+    await expect(readVerificationKey(circuit, 4)).rejects.toThrow('this SDK expects 4');
+  });
+
+  it('refuses a build for a different proof system', async () => {
+    const circuit = await readCircuitManifest(manifestPath);
+    expect(circuit.manifest.protocol).toEqual('groth16');
+    await expect(new ProofGenerator({ manifestPath, system: 'plonk' }).load()).rejects.toThrow('is a groth16 build, expected plonk');
+  });
+});
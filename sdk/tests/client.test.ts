@@ -0,0 +1,489 @@
+import { describe, expect, it } from 'vitest';
+import { getPublicKey } from '@noble/secp256k1';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Interface, JsonRpcProvider, Wallet, id, toBeHex, type Contract, type JsonRpcPayload, type Provider } from 'ethers';
+import { BaseMailerClient } from '../src/client/BaseMailerClient.js';
+import { MailEventIndex, matchMailEvents } from '../src/client/MailEventIndex.js';
+import { MailboxSync } from '../src/client/MailboxSync.js';
+import type { MailSubscriptionOptions, NewMailEvent } from '../src/client/MailSubscription.js';
+import { FileMailboxStore } from '../src/client/mailbox-store.js';
+import type { BackendAPI, BackendSendMailRequest } from '../src/backend/BackendAPI.js';
+import { BaseMailerRegistryABI, NameBasedMailerABI } from '../src/contracts/abi.js';
+import { EncryptionManager } from '../src/encryption/EncryptionManager.js';
+import type { StoredMail } from '../src/service/types.js';
+import { LocalStorageProvider } from '../src/storage/LocalStorageProvider.js';
+import type { StorageProvider } from '../src/storage/StorageProvider.js';
+import { bytes32ToCid, cidToBytes32, legacyCidToBytes32 } from '../src/utils/bytes.js';
+import { EMAIL_OWNERSHIP_PUBLIC_SIGNALS } from '../src/zkproof/email-ownership.js';
+import type { ProofGenerator } from '../src/zkproof/ProofGenerator.js';
+import type { MailContent, MailRecord } from '../src/types/mail.js';
+import { FakeChain, eventually } from './fixtures/fake-chain.js';
+
+const recipientKey = Buffer.alloc(32, 7);
+const recipientPrivateKey = `0x${recipientKey.toString('hex')}`;
+const recipientPublicKey = `0x${Buffer.from(getPublicKey(recipientKey, true)).toString('hex')}`;
+
+const stored: StoredMail = {
+  mailId: '12',
+  cid: 'bafkreiexample',
+  contentHash: `0x${'ab'.repeat(32)}`,
+  senderEmail: 'alice.base.eth@basemailer.com',
+  recipientEmail: 'bob.base.eth@basemailer.com',
+  timestamp: 1_700_000_000
+};
+
+const addresses = {
+  registryAddress: '0x00000000000000000000000000000000000000a0',
+  mailerAddress: '0x00000000000000000000000000000000000000b0'
+};
+
+describe('read-only BaseMailerClient', () => {
+  it('reads mail through a backend alone', async () => {
+    const pkg = await new EncryptionManager().encrypt(
+      { from: stored.senderEmail, to: stored.recipientEmail, subject: 'Hi', body: 'no keys needed' },
+      recipientPublicKey
+    );
+    const backend = {
+      async getInbox() {
+        return [stored];
+      },
+      async getMail() {
+        return { mail: stored, package: pkg };
+      }
+    } as unknown as BackendAPI;
+    const client = new BaseMailerClient({ ...addresses, backend });
+
+    const [record] = await client.getInbox(stored.recipientEmail);
+    expect(record).toMatchObject({ mailId: 12n, contentCID: stored.contentHash, timestamp: 1_700_000_000n });
+    expect((await client.retrieveMail('12', recipientPrivateKey)).body).toEqual('no keys needed');
+  });
+
+  it('names the capability a write or chain read is missing', async () => {
+    const client = new BaseMailerClient({ ...addresses, rpcUrl: 'http://127.0.0.1:1' });
+    await expect(client.sendMail({ from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'b' })).rejects.toThrow(
+      'sendMail requires a signer'
+    );
+    await expect(client.registerEmail('alice')).rejects.toThrow('registerEmail requires a signer');
+    await expect(client.deriveMessagingKeys()).rejects.toThrow('pass a messaging private key');
+
+    const backendOnly = new BaseMailerClient({ ...addresses, backend: {} as BackendAPI });
+    await expect(backendOnly.isEmailRegistered('a@basemailer.com')).rejects.toThrow(
+      'isEmailRegistered requires a provider or rpcUrl'
+    );
+    expect(() => new BaseMailerClient(addresses)).toThrow('Either provider, rpcUrl or backend must be supplied');
+  });
+});
+
+// Answers registry and mailer view calls from fixed results, so a client can run without a chain.
+class ChainRpc extends JsonRpcProvider {
+  private readonly contracts = [new Interface(BaseMailerRegistryABI), new Interface(NameBasedMailerABI)];
+
+  constructor(private readonly answers: Record<string, unknown[]>) {
+    super(undefined, 8453, { staticNetwork: true });
+  }
+
+  override async _send(payload: JsonRpcPayload | JsonRpcPayload[]) {
+    return (Array.isArray(payload) ? payload : [payload]).map(({ id: requestId, method, params }) => {
+      if (method !== 'eth_call') throw new Error(`unexpected ${method}`);
+      const { data } = (params as [{ data: string }])[0];
+      for (const contract of this.contracts) {
+        const call = contract.parseTransaction({ data });
+        if (call) return { id: requestId, result: contract.encodeFunctionResult(call.name, this.answers[call.name]) };
+      }
+      throw new Error(`unexpected call ${data}`);
+    });
+  }
+}
+
+describe('retrieveMail', () => {
+  it('asks the backend for a legacy hash instead of fetching a rebuilt CID', async () => {
+    const cid = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+    const contentCID = legacyCidToBytes32(cid);
+    const pkg = await new EncryptionManager().encrypt(
+      { from: stored.senderEmail, to: stored.recipientEmail, subject: 'Hi', body: 'from before digests' },
+      recipientPublicKey
+    );
+    const fetched: string[] = [];
+    const storage = {
+      async retrieve(requested: string) {
+        fetched.push(requested);
+        if (requested !== cid) throw new Error('timed out on every source');
+        return pkg;
+      }
+    } as unknown as StorageProvider;
+    const backend = {
+      async getMail() {
+        return { mail: { ...stored, cid, contentHash: contentCID } };
+      }
+    } as unknown as BackendAPI;
+    const provider = new ChainRpc({
+      getMail: [[contentCID, stored.senderEmail, stored.recipientEmail, 1_700_000_000n, true]]
+    });
+    const client = new BaseMailerClient({ ...addresses, provider, storage, backend });
+
+    expect((await client.retrieveMail('12', recipientPrivateKey)).body).toEqual('from before digests');
+    expect(fetched).toEqual([cid]);
+  });
+});
+
+describe('downloadAttachment', () => {
+  it('opens attachments sealed under the content key of mail sent before they had keys of their own', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'basemailer-attachment-'));
+    try {
+      const encryption = new EncryptionManager();
+      const storage = new LocalStorageProvider({ directory });
+      const contentKey = encryption.generateContentKey();
+      const sealed = encryption.encryptAttachment({ name: 'notes.txt', mimeType: 'text/plain', data: Buffer.from('legacy') }, contentKey);
+      const attachmentCid = await storage.uploadStream(sealed.chunks);
+      const pkg = await encryption.encrypt(
+        {
+          from: stored.senderEmail,
+          to: stored.recipientEmail,
+          subject: 'Notes',
+          body: 'attached',
+          attachments: [{ ...sealed.meta(), cid: attachmentCid }]
+        },
+        recipientPublicKey,
+        { contentKey }
+      );
+      const provider = new ChainRpc({
+        getMail: [[cidToBytes32(await storage.upload(pkg)), stored.senderEmail, stored.recipientEmail, 1_700_000_000n, true]]
+      });
+      const client = new BaseMailerClient({ ...addresses, provider, storage });
+
+      expect((await client.downloadAttachmentBuffer('12', 0, recipientPrivateKey)).toString()).toEqual('legacy');
+      await expect(client.downloadAttachmentBuffer('12', 1, recipientPrivateKey)).rejects.toThrow('Attachment 1 has no uploaded content');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('sendMail', () => {
+  const keyPair = (fill: number) => {
+    const privateKey = Buffer.alloc(32, fill);
+    return {
+      privateKey: `0x${privateKey.toString('hex')}`,
+      publicKey: `0x${Buffer.from(getPublicKey(privateKey, true)).toString('hex')}`
+    };
+  };
+
+  it('sends each Bcc recipient a package of their own', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'basemailer-bcc-'));
+    try {
+      const keys: Record<string, ReturnType<typeof keyPair>> = {
+        'bob.base.eth@basemailer.com': keyPair(2),
+        'carol.base.eth@basemailer.com': keyPair(3),
+        'dave.base.eth@basemailer.com': keyPair(4)
+      };
+      const sender = keyPair(9);
+      const signer = new Wallet(`0x${'11'.repeat(32)}`);
+      const requests: BackendSendMailRequest[] = [];
+      const backend = {
+        async sendMail(request: BackendSendMailRequest) {
+          requests.push(request);
+          return { mailId: String(requests.length), txHash: `0x${String(requests.length).padStart(64, '0')}` };
+        }
+      } as unknown as BackendAPI;
+      const storage = new LocalStorageProvider({ directory });
+      const rpc = new ChainRpc({ resolveEmail: [signer.address] });
+      const client = new BaseMailerClient({
+        ...addresses,
+        provider: rpc,
+        signer: signer.connect(rpc),
+        backend,
+        storage,
+        submission: 'relay',
+        archivePublicKey: sender.publicKey,
+        recipientResolver: async (email, owner) => ({ email, owner, publicKey: keys[email].publicKey }),
+        proofGenerator: {
+          canVerify: false,
+          async generateProof(inputs: Record<string, string>) {
+            return { proof: '0x01', publicSignals: EMAIL_OWNERSHIP_PUBLIC_SIGNALS.map((name) => inputs[name]) };
+          }
+        } as unknown as ProofGenerator
+      });
+
+      const sent = await client.sendMail({
+        from: stored.senderEmail,
+        to: 'bob.base.eth@basemailer.com',
+        cc: ['carol.base.eth@basemailer.com'],
+        bcc: ['dave.base.eth@basemailer.com'],
+        subject: 'Quarterly numbers',
+        body: 'attached',
+        attachments: [{ name: 'q3.csv', mimeType: 'text/csv', data: Buffer.from('revenue,42\n') }]
+      });
+
+      // everything delivered under the To recipient's CID is To and Cc only
+      const visible = requests.filter((request) => request.cid === sent.cid);
+      expect(visible.map((request) => request.recipientEmail)).toEqual(['bob.base.eth@basemailer.com', 'carol.base.eth@basemailer.com']);
+      expect(visible[0].authorization?.recipientEmails).not.toContain('dave.base.eth@basemailer.com');
+      const shared = await storage.retrieve(sent.cid);
+      expect(shared.encryptedKeys).toHaveLength(2);
+      const received = await new EncryptionManager().decrypt(shared, keys['bob.base.eth@basemailer.com'].privateKey);
+      expect(received.bcc).toBeUndefined();
+      expect((await new EncryptionManager().decrypt(shared, sender.privateKey)).bcc).toEqual(['dave.base.eth@basemailer.com']);
+
+      const [hidden] = requests.filter((request) => request.cid !== sent.cid);
+      expect(hidden.recipientEmail).toEqual('dave.base.eth@basemailer.com');
+      const bccPackage = await storage.retrieve(hidden.cid);
+      expect(bccPackage.encryptedKeys).toHaveLength(1);
+      const encryption = new EncryptionManager();
+      const bccContent = await encryption.decrypt(bccPackage, keys['dave.base.eth@basemailer.com'].privateKey);
+      expect(bccContent.subject).toEqual('Quarterly numbers');
+      // the key Bob unwraps opens his package only
+      const bobKey = encryption.openContentKey(shared, keys['bob.base.eth@basemailer.com'].privateKey);
+      const daveKey = encryption.openContentKey(bccPackage, keys['dave.base.eth@basemailer.com'].privateKey);
+      expect(daveKey).not.toEqual(bobKey);
+      // the attachment is uploaded once and opens from either package
+      expect(bccContent.attachments).toEqual(received.attachments);
+      const [meta] = bccContent.attachments!;
+      const attachment: Buffer[] = [];
+      for await (const chunk of encryption.decryptAttachment(storage.retrieveStream(meta.cid!), daveKey, meta)) attachment.push(chunk);
+      expect(Buffer.concat(attachment).toString()).toEqual('revenue,42\n');
+      expect(sent.deliveries.map((delivery) => delivery.cid)).toEqual([sent.cid, sent.cid, hidden.cid]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MailEventIndex', () => {
+  const bob = 'bob.base.eth@basemailer.com';
+  const log = (mailId: number, blockNumber: number, fill: string, recipient = bob, sender = stored.senderEmail) => ({
+    args: { mailId: BigInt(mailId), contentCID: `0x${fill.repeat(32)}`, timestamp: 100n },
+    topics: [id('MailSent'), toBeHex(mailId, 32), id(recipient), id(sender)],
+    transactionHash: `0x${String(mailId).padStart(64, '0')}`,
+    blockNumber
+  });
+  const entry = (fill: string, recipient = bob) => ({
+    contentCID: `0x${fill.repeat(32)}`,
+    timestamp: 100n,
+    senderEmail: stored.senderEmail,
+    recipientEmail: recipient
+  });
+  const fakeChain = (chain: ReturnType<typeof log>[], ranges: [number, number][] = []) =>
+    ({
+      filters: { MailSent: (...args: unknown[]) => args },
+      async queryFilter(_filter: unknown, from: number, to: number) {
+        ranges.push([from, to]);
+        return chain.filter((item) => item.blockNumber >= from && item.blockNumber <= to);
+      }
+    }) as unknown as Contract;
+
+  it('scans in block ranges, resumes where it stopped and matches entries by content', async () => {
+    const chain = [log(7, 3, 'aa'), log(9, 12, 'bb'), log(15, 25, 'aa')];
+    let head = 20;
+    const ranges: [number, number][] = [];
+    const provider = { getBlockNumber: async () => head } as unknown as Provider;
+    const index = new MailEventIndex(fakeChain(chain, ranges), provider, { fromBlock: 1, blockRange: 10 });
+
+    const first = await index.inboxEvents(bob);
+    expect(first.events.map((event) => event.mailId)).toEqual([7n, 9n]);
+    expect(first.scannedTo).toBe(20);
+    expect(ranges).toEqual([[1, 10], [11, 20]]);
+
+    head = 30;
+    const { events } = await index.inboxEvents(bob);
+    expect(ranges.slice(2)).toEqual([[21, 30]]);
+    // the earlier result is a snapshot and does not grow with later scans
+    expect(first.events).toHaveLength(2);
+
+    // the same package delivered twice keeps both ids, in order; the view entries carry no ids at all
+    const matched = matchMailEvents([entry('bb'), entry('aa'), entry('aa')], events, 'inbox bob');
+    expect(matched.map((record) => [record.mailId, record.blockNumber])).toEqual([[9n, 12], [7n, 3], [15n, 25]]);
+    expect(matched[0].txHash).toEqual(chain[1].transactionHash);
+
+    expect(() => matchMailEvents([entry('cc')], events, 'inbox bob')).toThrow('No MailSent event found for inbox bob');
+  });
+
+  it('keeps each recipient id when one mail is delivered to several in the same block', async () => {
+    const recipients = ['bob.base.eth@basemailer.com', 'carol.base.eth@basemailer.com', 'dave.base.eth@basemailer.com'];
+    const chain = recipients.map((recipient, index) => log(20 + index, 5, 'aa', recipient));
+    const provider = { getBlockNumber: async () => 5 } as unknown as Provider;
+    const index = new MailEventIndex(fakeChain(chain), provider, { fromBlock: 1 });
+
+    const { events } = await index.sentboxEvents(stored.senderEmail);
+    // the sentbox view lists them in another order than the logs
+    const matched = matchMailEvents([entry('aa', recipients[2]), entry('aa', recipients[0]), entry('aa', recipients[1])], events, 'sentbox');
+    expect(matched.map((record) => [record.recipientEmail, record.mailId])).toEqual([
+      [recipients[2], 22n],
+      [recipients[0], 20n],
+      [recipients[1], 21n]
+    ]);
+  });
+
+  it('refuses to list without a start block instead of scanning from genesis', async () => {
+    const provider = { getBlockNumber: async () => 30_000_000 } as unknown as Provider;
+    const index = new MailEventIndex(fakeChain([]), provider);
+    await expect(index.inboxEvents(bob)).rejects.toThrow('requires eventStartBlock');
+  });
+});
+
+describe('MailboxSync', () => {
+  const email = 'bob.base.eth@basemailer.com';
+  const record = (mailId: number, blockNumber: number): MailRecord => ({
+    mailId: BigInt(mailId),
+    contentCID: `0x${'aa'.repeat(32)}`,
+    senderEmail: stored.senderEmail,
+    recipientEmail: email,
+    timestamp: 100n,
+    verified: true,
+    blockNumber
+  });
+
+  it('fetches only mail after the checkpoint and retries what failed to decrypt', async () => {
+    const chain = [record(1, 5), record(2, 8), record(3, 8)];
+    let head = 8;
+    const queried: number[] = [];
+    let broken = new Set(['2']);
+    let inFlight = 0;
+    let peak = 0;
+    const client = {
+      eventStartBlock: 3,
+      async getInboxSince(_email: string, fromBlock: number) {
+        queried.push(fromBlock);
+        return { records: chain.filter((entry) => entry.blockNumber! >= fromBlock && entry.blockNumber! <= head), syncedTo: head };
+      },
+      async retrieveMail(mailId: string): Promise<MailContent> {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        if (broken.has(mailId)) throw new Error('package unavailable');
+        return { from: stored.senderEmail, to: email, subject: `mail ${mailId}`, body: '' };
+      }
+    };
+    const directory = await mkdtemp(path.join(tmpdir(), 'mailbox-sync-'));
+    const store = new FileMailboxStore(directory);
+    const sync = new MailboxSync(client, { store, batchSize: 2, concurrency: 2 });
+
+    const first = await sync.sync(email);
+    expect(first).toMatchObject({ added: ['1', '2', '3'], failed: ['2'], syncedBlock: 8 });
+    expect(peak).toBe(2);
+    expect((await sync.get(email, '2'))?.error).toEqual('package unavailable');
+    await sync.markRead(email, '1');
+    await sync.setFlag(email, '3', 'starred');
+
+    chain.push(record(4, 12));
+    head = 12;
+    broken = new Set();
+    // a fresh engine on the same store resumes from the saved checkpoint and state
+    const resumed = new MailboxSync(client, { store });
+    const second = await resumed.sync(email);
+    expect(queried).toEqual([3, 9]);
+    expect(second).toMatchObject({ added: ['4'], retrieved: ['2', '4'], failed: [], syncedBlock: 12 });
+    expect((await resumed.list(email, { unread: true })).map((mail) => mail.content?.subject)).toEqual([
+      'mail 2',
+      'mail 3',
+      'mail 4'
+    ]);
+    expect((await resumed.list(email, { flag: 'starred' })).map((mail) => String(mail.record.mailId))).toEqual(['3']);
+    await expect(resumed.markRead(email, '99')).rejects.toThrow('Mail 99 is not in the');
+    expect((await resumed.get(email, '4'))?.record.mailId).toBe(4n);
+    expect((await stat(path.join(directory, `${encodeURIComponent(email)}.json`))).mode & 0o777).toBe(0o600);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('needs a start block from its options or the client', () => {
+    const client = {
+      eventStartBlock: undefined,
+      getInboxSince: async () => ({ records: [], syncedTo: 0 }),
+      retrieveMail: async () => ({}) as MailContent
+    };
+    expect(() => new MailboxSync(client)).toThrow('MailboxSync needs startBlock');
+    expect(() => new MailboxSync(client, { startBlock: 3 })).not.toThrow();
+  });
+
+  it('advances the checkpoint to the block a backend has indexed', async () => {
+    const backend = {
+      async getInboxSince(_email: string, fromBlock: number) {
+        return { inbox: [{ ...stored, blockNumber: 7 }].filter((mail) => mail.blockNumber >= fromBlock), indexedTo: 9 };
+      },
+      async getMail() {
+        return { mail: stored };
+      }
+    } as unknown as BackendAPI;
+    const client = new BaseMailerClient({ ...addresses, backend, eventStartBlock: 4 });
+    const sync = new MailboxSync(client);
+
+    expect(await sync.sync(email)).toMatchObject({ added: ['12'], syncedBlock: 9 });
+    expect(await sync.sync(email)).toMatchObject({ added: [], syncedBlock: 9 });
+  });
+});
+
+describe('MailSubscription', () => {
+  const bob = stored.recipientEmail;
+  const readable = `0x${'aa'.repeat(32)}`;
+  const unreadable = `0x${'bb'.repeat(32)}`;
+  const mail = (contentCID: string, recipientEmail = bob) => ({ contentCID, senderEmail: stored.senderEmail, recipientEmail });
+
+  const subscribe = async (chain: FakeChain, options: MailSubscriptionOptions) => {
+    const encryption = new EncryptionManager();
+    const packages = {
+      [bytes32ToCid(readable)]: await encryption.encrypt(
+        { from: stored.senderEmail, to: bob, subject: 'Live', body: 'just arrived' },
+        recipientPublicKey
+      ),
+      [bytes32ToCid(unreadable)]: await encryption.encrypt(
+        { from: stored.senderEmail, to: bob, subject: 'Other', body: 'not for this key' },
+        Wallet.createRandom().signingKey.compressedPublicKey
+      )
+    };
+    const storage = { retrieve: async (cid: string) => packages[cid] } as unknown as StorageProvider;
+    const client = new BaseMailerClient({ ...addresses, provider: chain, storage, logBlockRange: 5 });
+    const delivered: NewMailEvent[] = [];
+    const errors: Error[] = [];
+    const subscription = await client.subscribe(bob, (event) => void delivered.push(event), {
+      ...options,
+      onError: (error) => errors.push(error)
+    });
+    return { subscription, delivered, errors };
+  };
+
+  it('replays mail from the start block in ranges and decrypts what it can', async () => {
+    const chain = new FakeChain(10);
+    chain.record(mail(readable), 4);
+    chain.record(mail(readable, 'carol.base.eth@basemailer.com'), 6);
+    chain.record(mail(unreadable), 9);
+
+    const { subscription, delivered, errors } = await subscribe(chain, {
+      fromBlock: 3,
+      decrypt: true,
+      messagingPrivateKey: recipientPrivateKey
+    });
+    await eventually(() => delivered.length === 2);
+    await subscription.unsubscribe();
+
+    expect(chain.logRanges.slice(0, 2)).toEqual([
+      [3, 7],
+      [8, 10]
+    ]);
+    expect(delivered.map((event) => [event.record.mailId, event.record.blockNumber, event.content?.body])).toEqual([
+      [1n, 4, 'just arrived'],
+      [3n, 9, undefined]
+    ]);
+    expect(delivered[1].decryptError).toBeInstanceOf(Error);
+    expect(errors).toEqual([]);
+  });
+
+  it('delivers live mail once when one poll reports several blocks', async () => {
+    const chain = new FakeChain(10);
+    const { subscription, delivered, errors } = await subscribe(chain, {});
+
+    // blocks 11 to 13 arrive together, and the log filter reports block 12 after all of them
+    chain.record(mail(readable), 12);
+    await chain.mineUntil(() => chain.head >= 13 && delivered.length > 0);
+    // far enough ahead that the blocks since the start are swept, five at a time, finding mail 1 again
+    await chain.mineUntil(() => chain.logRanges.some(([from, to]) => from === 11 && to === 15));
+    chain.record(mail(unreadable), chain.head + 1);
+    await chain.mineUntil(() => delivered.length > 1);
+    await subscription.unsubscribe();
+
+    expect(delivered.map((event) => event.record.mailId)).toEqual([1n, 2n]);
+    expect(delivered[0]).toMatchObject({ mailbox: 'inbox', email: bob, record: { blockNumber: 12, senderEmail: stored.senderEmail } });
+    expect(errors).toEqual([]);
+  });
+});
@@ -1,11 +1,22 @@
 import { describe, expect, it } from 'vitest';
 import { getPublicKey } from '@noble/secp256k1';
+import { createPrivateKey, createPublicKey } from 'crypto';
+import { Wallet } from 'ethers';
 import { EncryptionManager } from '../src/encryption/EncryptionManager.js';
+import { signMailContent } from '../src/encryption/mail-signature.js';
 
 const recipientPrivateKeyBytes = Buffer.alloc(32, 1);
 const recipientPrivateKey = `0x${recipientPrivateKeyBytes.toString('hex')}`;
 const recipientPublicKey = `0x${Buffer.from(getPublicKey(recipientPrivateKeyBytes, true)).toString('hex')}`;
 
+function keyPair(fill: number): { privateKey: string; publicKey: string } {
+  const bytes = Buffer.alloc(32, fill);
+  return {
+    privateKey: `0x${bytes.toString('hex')}`,
+    publicKey: `0x${Buffer.from(getPublicKey(bytes, true)).toString('hex')}`
+  };
+}
+
 describe('EncryptionManager', () => {
   it('encrypts and decrypts payloads', async () => {
     const manager = new EncryptionManager();
@@ -23,4 +34,167 @@ describe('EncryptionManager', () => {
     expect(decrypted.subject).toEqual(mail.subject);
     expect(decrypted.body).toEqual(mail.body);
   });
+
+  it('lets every To, Cc and Bcc recipient open a shared package without exposing Bcc', async () => {
+    const manager = new EncryptionManager();
+    const to = keyPair(2);
+    const cc = keyPair(3);
+    const bcc = keyPair(4);
+    const mail = {
+      from: 'alice.base.eth@basemailer.com',
+      to: 'bob.base.eth@basemailer.com',
+      cc: ['carol.base.eth@basemailer.com'],
+      bcc: ['dave.base.eth@basemailer.com'],
+      subject: 'Team update',
+      body: 'Shipping on Friday'
+    };
+
+    const encrypted = await manager.encrypt(mail, [to.publicKey, cc.publicKey, bcc.publicKey]);
+    expect(encrypted.encryptedKeys).toHaveLength(3);
+
+    for (const recipient of [to, cc, bcc]) {
+      const decrypted = await manager.decrypt(encrypted, recipient.privateKey);
+      expect(decrypted.body).toEqual(mail.body);
+      expect(decrypted.cc).toEqual(mail.cc);
+      expect(decrypted.bcc).toBeUndefined();
+    }
+  });
+
+  it('rejects a private key that owns no key slot', async () => {
+    const manager = new EncryptionManager();
+    const encrypted = await manager.encrypt(
+      { from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'b' },
+      recipientPublicKey
+    );
+
+    await expect(manager.decrypt(encrypted, keyPair(9).privateKey)).rejects.toThrow(/no encrypted key slot/);
+  });
+
+  it('lets the sender reopen their own copy, including Bcc, through the archive key', async () => {
+    const manager = new EncryptionManager();
+    const sender = keyPair(5);
+    const recipient = keyPair(6);
+    const mail = {
+      from: 'alice.base.eth@basemailer.com',
+      to: 'bob.base.eth@basemailer.com',
+      bcc: ['dave.base.eth@basemailer.com'],
+      subject: 'Sent folder',
+      body: 'Readable from any device'
+    };
+
+    const encrypted = await manager.encrypt(mail, recipient.publicKey, { archivePublicKey: sender.publicKey });
+    expect(encrypted.encryptedKeys).toHaveLength(1);
+
+    const archived = await manager.decrypt(encrypted, sender.privateKey);
+    expect(archived.body).toEqual(mail.body);
+    expect(archived.bcc).toEqual(mail.bcc);
+
+    const received = await manager.decrypt(encrypted, recipient.privateKey);
+    expect(received.bcc).toBeUndefined();
+  });
+
+  it('verifies the sender signature carried inside the encrypted payload', async () => {
+    const manager = new EncryptionManager();
+    const wallet = new Wallet(`0x${Buffer.alloc(32, 7).toString('hex')}`);
+    const signed = await signMailContent(
+      { from: 'alice.base.eth@basemailer.com', to: 'bob.base.eth@basemailer.com', subject: 'Signed', body: 'Really me' },
+      wallet
+    );
+
+    const encrypted = await manager.encrypt(signed, recipientPublicKey);
+    const result = await manager.decryptAndVerify(encrypted, recipientPrivateKey, wallet.address);
+    expect(result.sender).toMatchObject({ verified: true, signer: wallet.address });
+
+    const impostor = await manager.decryptAndVerify(encrypted, recipientPrivateKey, Wallet.createRandom().address);
+    expect(impostor.sender).toMatchObject({ verified: false, reason: 'signer-mismatch' });
+
+    const forged = await manager.encrypt({ ...signed, from: 'mallory.base.eth@basemailer.com' }, recipientPublicKey);
+    const forgedResult = await manager.decryptAndVerify(forged, recipientPrivateKey, wallet.address);
+    expect(forgedResult.sender).toMatchObject({ verified: false, reason: 'invalid-signature' });
+  });
+
+  it('round-trips chunked attachments and rejects truncated uploads', async () => {
+    const manager = new EncryptionManager({ attachmentChunkSize: 1024 });
+    const contentKey = manager.generateContentKey();
+    const data = Buffer.alloc(4096 + 17, 0xab);
+
+    const encrypted = manager.encryptAttachment({ name: 'report.bin', mimeType: 'application/octet-stream', data }, contentKey);
+    const frames: Buffer[] = [];
+    for await (const frame of encrypted.chunks) frames.push(frame);
+    const meta = encrypted.meta();
+    expect(meta.size).toEqual(data.length);
+    expect(frames).toHaveLength(5);
+
+    async function* source(parts: Buffer[]): AsyncGenerator<Uint8Array> {
+      yield* parts;
+    }
+
+    const plaintext: Buffer[] = [];
+    for await (const chunk of manager.decryptAttachment(source(frames), contentKey, meta)) plaintext.push(chunk);
+    expect(Buffer.concat(plaintext).equals(data)).toBe(true);
+
+    const truncated = async () => {
+      for await (const _ of manager.decryptAttachment(source(frames.slice(0, 4)), contentKey, meta)) {
+        // drain
+      }
+    };
+    await expect(truncated()).rejects.toThrow(/truncated/);
+  });
+
+  it('encrypts with the X25519 / XChaCha20-Poly1305 suite and dispatches on algorithm when decrypting', async () => {
+    const privateKey = Buffer.alloc(32, 11);
+    const pkcs8 = Buffer.concat([Buffer.from('302e020100300506032b656e04220420', 'hex'), privateKey]);
+    const spki = createPublicKey(createPrivateKey({ key: pkcs8, format: 'der', type: 'pkcs8' })).export({
+      format: 'der',
+      type: 'spki'
+    });
+    const publicKey = `0x${spki.subarray(12).toString('hex')}`;
+
+    const sender = new EncryptionManager({ suite: 'x25519-xchacha20poly1305' });
+    const encrypted = await sender.encrypt({ from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'x25519' }, publicKey);
+    expect(encrypted.encryptedContent.algorithm).toEqual('XChaCha20-Poly1305');
+    expect(encrypted.encryptedContent.iv).toHaveLength(2 + 48);
+    expect(encrypted.encryptedKeys[0].algorithm).toEqual('ECIES-X25519');
+
+    const reader = new EncryptionManager();
+    const decrypted = await reader.decrypt(encrypted, `0x${privateKey.toString('hex')}`);
+    expect(decrypted.body).toEqual('x25519');
+
+    const contentKey = sender.generateContentKey();
+    const attachment = sender.encryptAttachment({ name: 'a.txt', mimeType: 'text/plain', data: Buffer.from('attached') }, contentKey);
+    const frames: Buffer[] = [];
+    for await (const frame of attachment.chunks) frames.push(frame);
+    async function* source(): AsyncGenerator<Uint8Array> {
+      yield* frames;
+    }
+    const opened: Buffer[] = [];
+    for await (const chunk of reader.decryptAttachment(source(), contentKey, attachment.meta())) opened.push(chunk);
+    expect(Buffer.concat(opened).toString()).toEqual('attached');
+  });
+
+  it('reports unknown package versions and algorithms', async () => {
+    const manager = new EncryptionManager();
+    const encrypted = await manager.encrypt({ from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'b' }, recipientPublicKey);
+
+    await expect(manager.decrypt({ ...encrypted, version: '9.0' }, recipientPrivateKey)).rejects.toThrow(/Unsupported package version 9.0/);
+
+    const slots = encrypted.encryptedKeys.map((slot) => ({ ...slot, algorithm: 'ECIES-future' }));
+    await expect(manager.decrypt({ ...encrypted, encryptedKeys: slots }, recipientPrivateKey)).rejects.toThrow(/Unsupported key algorithm ECIES-future/);
+  });
+
+  it('pads plaintexts to size buckets and can drop clear-text size and timestamp', async () => {
+    const manager = new EncryptionManager({ padding: { step: 4096 }, hideMetadata: true });
+    const short = await manager.encrypt({ from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'hi' }, recipientPublicKey);
+    const longer = await manager.encrypt(
+      { from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'x'.repeat(1000) },
+      recipientPublicKey
+    );
+
+    expect(short.encryptedContent.ciphertext.length).toEqual(longer.encryptedContent.ciphertext.length);
+    expect(short.metadata).toEqual({ version: '2.0', contentType: 'mail' });
+
+    const decrypted = await manager.decrypt(longer, recipientPrivateKey);
+    expect(decrypted.body).toEqual('x'.repeat(1000));
+    expect(decrypted.timestamp).toBeTypeOf('number');
+  });
 });
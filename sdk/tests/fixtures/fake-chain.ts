@@ -0,0 +1,212 @@
+import { Interface, JsonRpcProvider, Transaction, ZeroAddress, toBeHex, toQuantity, type JsonRpcPayload, type JsonRpcResult } from 'ethers';
+import { BaseMailerRegistryABI, NameBasedMailerABI } from '../../src/contracts/abi.js';
+
+export const registryAddress = '0x00000000000000000000000000000000000000a0';
+export const mailerAddress = '0x00000000000000000000000000000000000000b0';
+
+export interface ChainMail {
+  contentCID: string;
+  senderEmail: string;
+  recipientEmail: string;
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed: false;
+}
+
+type LogFilter = { fromBlock?: string; toBlock?: string; address?: string; topics?: (string | string[] | null)[] };
+
+const registry = new Interface(BaseMailerRegistryABI);
+const mailer = new Interface(NameBasedMailerABI);
+
+// Mailer and registry state behind a real JsonRpcProvider, so tests go through ethers' own log decoding, block
+// polling and transaction flow. Blocks exist up to `head`; logs may be recorded ahead of it and appear as it moves.
+export class FakeChain extends JsonRpcProvider {
+  head: number;
+  readonly owners = new Map<string, string>();
+  readonly mails: (ChainMail & { timestamp: bigint })[] = [];
+  // eth_sendRawTransaction waits on this, so tests can hold submissions in flight
+  submissions: Promise<void> = Promise.resolve();
+  // [fromBlock, toBlock] of every eth_getLogs, as asked
+  readonly logRanges: [number, number][] = [];
+  private readonly logs: RawLog[] = [];
+  private readonly receipts = new Map<string, object>();
+
+  constructor(head = 0) {
+    super(undefined, 8453, { staticNetwork: true, polling: true, pollingInterval: 10, cacheTimeout: -1 });
+    this.head = head;
+  }
+
+  // Records a MailSent at `blockNumber` and returns its mail ID.
+  record(mail: ChainMail, blockNumber: number, txHash = blockHash(blockNumber + 1_000_000 + this.mails.length)): bigint {
+    const timestamp = blockTimestamp(blockNumber);
+    this.mails.push({ ...mail, timestamp });
+    const mailId = BigInt(this.mails.length);
+    const { topics, data } = mailer.encodeEventLog('MailSent', [
+      mailId,
+      mail.recipientEmail,
+      mail.senderEmail,
+      mail.contentCID,
+      timestamp
+    ]);
+    this.logs.push({
+      address: mailerAddress,
+      topics,
+      data,
+      blockNumber: toQuantity(blockNumber),
+      blockHash: blockHash(blockNumber),
+      transactionHash: txHash,
+      transactionIndex: '0x0',
+      logIndex: toQuantity(this.logs.length),
+      removed: false
+    });
+    return mailId;
+  }
+
+  // ethers' block poller starts from whatever head it first sees, so blocks keep coming until the check passes
+  async mineUntil(check: () => boolean | Promise<boolean>): Promise<void> {
+    await eventually(async () => {
+      if (await check()) return true;
+      this.head += 1;
+      return false;
+    });
+  }
+
+  override async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(
+      requests.map(async ({ id, method, params }) => ({ id, result: await this.answer(method, params as unknown[]) }))
+    );
+  }
+
+  private async answer(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(8453);
+      case 'eth_blockNumber':
+        return toQuantity(this.head);
+      case 'eth_getBlockByNumber':
+        return this.blockAt(params[0] === 'latest' || params[0] === 'pending' ? this.head : Number(params[0]));
+      case 'eth_getLogs':
+        return this.matchingLogs(params[0] as LogFilter);
+      case 'eth_call':
+        return this.view(params[0] as { to: string; data: string });
+      case 'eth_getTransactionCount':
+        return toQuantity(this.receipts.size);
+      case 'eth_estimateGas':
+        return toQuantity(100_000);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return toQuantity(1);
+      case 'eth_sendRawTransaction':
+        return this.submit(params[0] as string);
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(params[0] as string) ?? null;
+      default:
+        throw new Error(`unexpected ${method}`);
+    }
+  }
+
+  private matchingLogs(filter: LogFilter): RawLog[] {
+    const from = filter.fromBlock === undefined || filter.fromBlock === 'latest' ? this.head : Number(filter.fromBlock);
+    const to = filter.toBlock === undefined || filter.toBlock === 'latest' ? this.head : Number(filter.toBlock);
+    this.logRanges.push([from, to]);
+    return this.logs.filter(
+      (log) =>
+        Number(log.blockNumber) >= from &&
+        Number(log.blockNumber) <= Math.min(to, this.head) &&
+        (filter.topics ?? []).every((topic, index) => {
+          if (topic === null) return true;
+          return (Array.isArray(topic) ? topic : [topic]).some((value) => value.toLowerCase() === log.topics[index]?.toLowerCase());
+        })
+    );
+  }
+
+  private view({ to, data }: { to: string; data: string }): string {
+    if (to.toLowerCase() === registryAddress) {
+      const call = registry.parseTransaction({ data })!;
+      const owner = this.owners.get(call.args[0]) ?? ZeroAddress;
+      if (call.name === 'resolveEmail') return registry.encodeFunctionResult(call.name, [owner]);
+      if (call.name === 'isEmailRegistered') return registry.encodeFunctionResult(call.name, [owner !== ZeroAddress]);
+    }
+    if (to.toLowerCase() === mailerAddress) {
+      const call = mailer.parseTransaction({ data })!;
+      if (call.name === 'getMail') {
+        const mail = this.mails[Number(call.args[0]) - 1];
+        return mailer.encodeFunctionResult(call.name, [
+          [mail.contentCID, mail.senderEmail, mail.recipientEmail, mail.timestamp, true]
+        ]);
+      }
+    }
+    throw new Error(`unexpected call to ${to}: ${data.slice(0, 10)}`);
+  }
+
+  // Mines each sendMail in a block of its own.
+  private async submit(raw: string): Promise<string> {
+    await this.submissions;
+    const tx = Transaction.from(raw);
+    const call = mailer.parseTransaction({ data: tx.data });
+    if (!call || call.name !== 'sendMail') throw new Error('unexpected transaction');
+    const [, contentCID, senderEmail, recipientEmail] = call.args;
+    this.head += 1;
+    this.record({ contentCID, senderEmail, recipientEmail }, this.head, tx.hash!);
+    this.receipts.set(tx.hash!, {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockHash: blockHash(this.head),
+      blockNumber: toQuantity(this.head),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: '0x0',
+      gasUsed: '0x0',
+      effectiveGasPrice: '0x1',
+      logsBloom: `0x${'00'.repeat(256)}`,
+      logs: [this.logs[this.logs.length - 1]],
+      status: '0x1',
+      type: '0x2'
+    });
+    return tx.hash!;
+  }
+
+  private blockAt(number: number): object {
+    return {
+      number: toQuantity(number),
+      hash: blockHash(number),
+      parentHash: blockHash(number - 1),
+      timestamp: toQuantity(blockTimestamp(number)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toQuantity(30_000_000),
+      gasUsed: '0x0',
+      miner: ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: '0x1',
+      transactions: []
+    };
+  }
+}
+
+function blockHash(number: number): string {
+  return toBeHex(number + 1, 32);
+}
+
+function blockTimestamp(number: number): bigint {
+  return 1_700_000_000n + BigInt(number) * 2n;
+}
+
+export async function eventually(check: () => boolean | Promise<boolean>): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error('condition not met within 2s');
+}
@@ -0,0 +1,22 @@
+// Speaks proving-worker.ts's message protocol without snarkjs so the pool can be tested without circuit artifacts.
+import { parentPort, workerData } from 'worker_threads';
+
+const wasm = new Uint8Array(workerData.wasm);
+
+parentPort.postMessage({ type: 'ready' });
+
+parentPort.on('message', async ({ jobId, inputs }) => {
+  parentPort.postMessage({ type: 'progress', jobId, stage: 'witness' });
+  await new Promise((resolve) => setTimeout(resolve, inputs.delayMs ?? 0));
+  parentPort.postMessage({ type: 'progress', jobId, stage: 'proving' });
+  if (inputs.fail) {
+    parentPort.postMessage({ type: 'error', jobId, message: 'constraint not satisfied' });
+    return;
+  }
+  parentPort.postMessage({
+    type: 'result',
+    jobId,
+    proof: { pi_a: [String(wasm.length), '0', '1'], pi_b: [], pi_c: [] },
+    publicSignals: [String(inputs.value)]
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Wallet } from 'ethers';
+import { EncryptionManager } from '../src/encryption/EncryptionManager.js';
+import type { BackendAPI } from '../src/backend/BackendAPI.js';
+import { KeyDirectory } from '../src/keys/KeyDirectory.js';
+import { FileKeystore } from '../src/keys/Keystore.js';
+import {
+  createMessagingKeyAnnouncement,
+  deriveMessagingKeyPair,
+  verifyMessagingKeyAnnouncement,
+  type MessagingKeyAnnouncement
+} from '../src/keys/messaging-keys.js';
+
+const wallet = new Wallet(`0x${Buffer.alloc(32, 3).toString('hex')}`);
+
+describe('messaging keys', () => {
+  it('derives the same usable keypair from the same wallet', async () => {
+    const first = await deriveMessagingKeyPair(wallet);
+    const second = await deriveMessagingKeyPair(wallet);
+    expect(second).toEqual(first);
+    expect(first.address).toEqual(wallet.address);
+
+    const other = await deriveMessagingKeyPair(Wallet.createRandom());
+    expect(other.privateKey).not.toEqual(first.privateKey);
+
+    const manager = new EncryptionManager();
+    const encrypted = await manager.encrypt(
+      { from: 'a@basemailer.com', to: 'b@basemailer.com', subject: 's', body: 'wallet only' },
+      first.publicKey
+    );
+    expect((await manager.decrypt(encrypted, first.privateKey)).body).toEqual('wallet only');
+  });
+
+  it('verifies key announcements against the signing address', async () => {
+    const { publicKey } = await deriveMessagingKeyPair(wallet);
+    const announcement = await createMessagingKeyAnnouncement(wallet, publicKey);
+
+    expect(verifyMessagingKeyAnnouncement(announcement, wallet.address)).toBe(true);
+    expect(verifyMessagingKeyAnnouncement(announcement, Wallet.createRandom().address)).toBe(false);
+    expect(verifyMessagingKeyAnnouncement({ ...announcement, publicKey: `0x02${'11'.repeat(32)}` })).toBe(false);
+  });
+
+  it('resolves the newest valid key for the registry owner and caches it', async () => {
+    const now = Date.now();
+    const expired = await createMessagingKeyAnnouncement(wallet, `0x02${'01'.repeat(32)}`, {
+      issuedAt: now - 20_000,
+      expiresAt: now - 10_000
+    });
+    const current = await createMessagingKeyAnnouncement(wallet, `0x02${'02'.repeat(32)}`, { issuedAt: now - 5_000 });
+    const scheduled = await createMessagingKeyAnnouncement(wallet, `0x02${'03'.repeat(32)}`, { issuedAt: now + 60_000 });
+    const forged = { ...(await createMessagingKeyAnnouncement(Wallet.createRandom(), `0x02${'04'.repeat(32)}`)), address: wallet.address };
+
+    let calls = 0;
+    const backend = {
+      async getMessagingKeys(): Promise<MessagingKeyAnnouncement[]> {
+        calls += 1;
+        return [expired, current, scheduled, forged];
+      }
+    } as unknown as BackendAPI;
+
+    const resolve = new KeyDirectory({ backend }).resolver();
+    const result = await resolve('bob.base.eth@basemailer.com', wallet.address);
+    expect(result.publicKey).toEqual(current.publicKey);
+
+    await resolve('bob.base.eth@basemailer.com', wallet.address);
+    expect(calls).toEqual(1);
+
+    await expect(resolve('eve.base.eth@basemailer.com', Wallet.createRandom().address)).rejects.toThrow(/No valid messaging key/);
+  });
+});
+
+describe('FileKeystore', () => {
+  it('stores keys encrypted under a password and unlocks them by label', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'basemailer-keystore-'));
+    try {
+      const keystore = new FileKeystore(directory, { n: 1 << 10 });
+      const privateKey = `0x${Buffer.alloc(32, 5).toString('hex')}`;
+      const entry = await keystore.import(privateKey, 'correct horse', 'work');
+
+      expect(JSON.stringify(entry)).not.toContain(privateKey.slice(2));
+      expect((await keystore.list()).map((item) => item.label)).toEqual(['work']);
+      expect(await keystore.unlock('work', 'correct horse')).toEqual(privateKey);
+      await expect(keystore.unlock(entry.id, 'wrong')).rejects.toThrow(/Incorrect keystore password/);
+      await expect(keystore.import(privateKey, 'pw', 'work')).rejects.toThrow(/already in use/);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
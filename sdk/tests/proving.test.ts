@@ -0,0 +1,81 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ProvingPool, type ProvingProgressEvent } from '../src/zkproof/ProvingPool.js';
+
+const workerUrl = new URL('./fixtures/fake-proving-worker.mjs', import.meta.url);
+
+describe('ProvingPool', () => {
+  let dir: string;
+  let pool: ProvingPool;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'basemailer-proving-'));
+    await writeFile(path.join(dir, 'circuit.wasm'), Buffer.alloc(7));
+    await writeFile(path.join(dir, 'circuit.zkey'), Buffer.alloc(3));
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createPool = (size: number) =>
+    new ProvingPool({
+      circuitPath: path.join(dir, 'circuit.wasm'),
+      provingKeyPath: path.join(dir, 'circuit.zkey'),
+      size,
+      workerUrl
+    });
+
+  it('hands preloaded artifacts to the workers and reports progress and timings', async () => {
+    pool = createPool(1);
+    const stages: ProvingProgressEvent['stage'][] = [];
+    const completed: unknown[] = [];
+    pool.on('complete', (timings) => completed.push(timings));
+
+    const result = await pool.prove({ value: 42 }, { onProgress: (event) => stages.push(event.stage) });
+    expect(result.publicSignals).toEqual(['42']);
+    expect(result.proof.pi_a[0]).toEqual('7');
+    expect(stages).toEqual(['queued', 'witness', 'proving', 'done']);
+    expect(completed).toEqual([result.timings]);
+    expect(result.timings.totalMs).toBeGreaterThanOrEqual(result.timings.provingMs);
+  });
+
+  it('runs at most `size` proofs at once and queues the rest', async () => {
+    pool = createPool(2);
+    let running = 0;
+    let peak = 0;
+    pool.on('progress', (event: ProvingProgressEvent) => {
+      if (event.stage === 'witness') peak = Math.max(peak, ++running);
+      if (event.stage === 'done') running -= 1;
+    });
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((value) => pool.prove({ value, delayMs: 20 })));
+    expect(results.map((result) => result.publicSignals[0])).toEqual(['1', '2', '3', '4', '5']);
+    expect(peak).toBe(2);
+  });
+
+  it('cancels queued and running proofs and replaces the interrupted worker', async () => {
+    pool = createPool(1);
+    const running = new AbortController();
+    const queued = new AbortController();
+    const slow = pool.prove({ value: 1, delayMs: 5_000 }, { signal: running.signal });
+    const waiting = pool.prove({ value: 2 }, { signal: queued.signal });
+
+    queued.abort();
+    await expect(waiting).rejects.toThrow('aborted');
+    running.abort();
+    await expect(slow).rejects.toThrow('aborted');
+
+    // the terminated worker is respawned and keeps serving
+    await expect(pool.prove({ value: 3 })).resolves.toMatchObject({ publicSignals: ['3'] });
+  });
+
+  it('rejects only the failing proof', async () => {
+    pool = createPool(1);
+    await expect(pool.prove({ value: 1, fail: true })).rejects.toThrow('constraint not satisfied');
+    await expect(pool.prove({ value: 2 })).resolves.toMatchObject({ publicSignals: ['2'] });
+  });
+});
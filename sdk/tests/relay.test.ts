@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Wallet } from 'ethers';
+import {
+  checkRelayAuthorization,
+  relayAuthorizationDomain,
+  signRelayAuthorization
+} from '../src/backend/relay-authorization.js';
+import { EncryptionManager } from '../src/encryption/EncryptionManager.js';
+import { EmailService } from '../src/service/EmailService.js';
+import { JsonlRelayAuthorizationStore } from '../src/service/JsonlStore.js';
+import type { MailStore } from '../src/service/MailStore.js';
+import type { RelayAuthorizationStore } from '../src/service/RelayAuthorizationStore.js';
+import { SqliteMailStore, openSqliteDatabase } from '../src/service/SqliteStore.js';
+import type { StoredMail } from '../src/service/types.js';
+import { LocalStorageProvider } from '../src/storage/LocalStorageProvider.js';
+import { cidToBytes32 } from '../src/utils/bytes.js';
+import { ConsoleLogger } from '../src/utils/logger.js';
+import { FakeChain, mailerAddress, registryAddress } from './fixtures/fake-chain.js';
+
+const sender = Wallet.createRandom();
+const domain = relayAuthorizationDomain(8453, mailerAddress);
+const request = {
+  proof: '0x1234',
+  contentCID: `0x${'ab'.repeat(32)}`,
+  senderEmail: 'alice.base.eth@basemailer.com'
+};
+const recipients = ['bob.base.eth@basemailer.com', 'carol.base.eth@basemailer.com'];
+
+describe('relay authorization', () => {
+  it('covers every recipient of the signed mail', async () => {
+    const authorization = await signRelayAuthorization(sender, domain, request, recipients);
+    expect(authorization.signer).toEqual(sender.address);
+    for (const recipient of recipients) {
+      expect(checkRelayAuthorization(authorization, domain, request, recipient, sender.address)).toBeUndefined();
+    }
+  });
+
+  it('rejects deliveries a relay altered', async () => {
+    const authorization = await signRelayAuthorization(sender, domain, request, recipients);
+    const check = (changes: Partial<typeof request>, recipient = recipients[0], signer = sender.address) =>
+      checkRelayAuthorization(authorization, domain, { ...request, ...changes }, recipient, signer);
+
+    expect(check({}, 'mallory.base.eth@basemailer.com')).toContain('not authorized');
+    expect(check({ proof: '0x1235' })).toEqual('not signed by the sender');
+    expect(check({ contentCID: `0x${'cd'.repeat(32)}` })).toEqual('not signed by the sender');
+    expect(check({}, recipients[0], Wallet.createRandom().address)).toEqual('not signed by the sender');
+    const otherChain = relayAuthorizationDomain(84532, domain.verifyingContract!);
+    expect(checkRelayAuthorization(authorization, otherChain, request, recipients[0], sender.address)).toEqual(
+      'not signed by the sender'
+    );
+    // widening the recipient list after signing breaks the signature
+    const widened = { ...authorization, recipientEmails: [...recipients, 'mallory.base.eth@basemailer.com'] };
+    expect(checkRelayAuthorization(widened, domain, request, 'mallory.base.eth@basemailer.com', sender.address)).toEqual(
+      'not signed by the sender'
+    );
+  });
+
+  it('expires', async () => {
+    const authorization = await signRelayAuthorization(sender, domain, request, recipients, -1);
+    expect(checkRelayAuthorization(authorization, domain, request, recipients[0], sender.address)).toEqual('authorization expired');
+  });
+});
+
+describe('relay route', () => {
+  let directory: string;
+  let cid: string;
+  let chain: FakeChain;
+  let services: EmailService[];
+  let release: () => void;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'basemailer-relay-'));
+    const pkg = await new EncryptionManager().encrypt(
+      { from: request.senderEmail, to: recipients[0], subject: 'Hi', body: 'relayed' },
+      Wallet.createRandom().signingKey.compressedPublicKey
+    );
+    cid = await new LocalStorageProvider({ directory }).upload(pkg);
+    chain = new FakeChain();
+    chain.owners.set(request.senderEmail, sender.address);
+    // submissions wait on `release` so concurrent requests overlap
+    chain.submissions = new Promise<void>((resolve) => (release = resolve));
+    services = [];
+  });
+
+  afterEach(async () => {
+    release();
+    for (const service of services) {
+      await service.stop();
+    }
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const startRelay = async (relayAuthorizationStore?: RelayAuthorizationStore) => {
+    const service = new EmailService(
+      {
+        rpcUrl: 'http://127.0.0.1:1',
+        registryAddress,
+        mailerAddress,
+        signerPrivateKey: Wallet.createRandom().privateKey,
+        storageProvider: { type: 'local', directory },
+        port: 0
+      },
+      { provider: chain, relayAuthorizationStore }
+    );
+    services.push(service);
+    await service.start();
+    return (body: unknown) =>
+      fetch(`http://127.0.0.1:${service.port}/api/send-mail`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+  };
+  const sent = () => chain.mails.map((mail) => mail.recipientEmail);
+  const signedBody = async () => {
+    const authorization = await signRelayAuthorization(sender, domain, { ...request, contentCID: cidToBytes32(cid) }, recipients);
+    return { proof: request.proof, cid, senderEmail: request.senderEmail, recipientEmail: recipients[0], authorization };
+  };
+
+  it('refuses requests without an authorization by default', async () => {
+    const post = await startRelay();
+    const response = await post({ ...request, cid, recipientEmail: recipients[0] });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Relay authorization required' });
+    expect(sent()).toEqual([]);
+  });
+
+  it('submits identical concurrent requests once', async () => {
+    const post = await startRelay();
+    const body = await signedBody();
+
+    const first = post(body);
+    const second = post(body);
+    // both are in the route before either submission finishes
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    release();
+    const statuses = (await Promise.all([first, second])).map((response) => response.status).sort();
+    expect(statuses).toEqual([200, 409]);
+    expect(sent()).toEqual([recipients[0]]);
+
+    expect((await post(body)).status).toBe(409);
+    expect((await post({ ...body, recipientEmail: recipients[1] })).status).toBe(200);
+    expect(sent()).toEqual(recipients);
+  });
+
+  it('refuses a used authorization after a restart that lost the mail records', async () => {
+    const file = path.join(directory, 'authorizations.jsonl');
+    const body = await signedBody();
+    release();
+    expect((await (await startRelay(new JsonlRelayAuthorizationStore(file)))(body)).status).toBe(200);
+    await services[0].stop();
+
+    // the restarted relay keeps mail in memory and starts indexing at the head, so its inbox has no record
+    const response = await (await startRelay(new JsonlRelayAuthorizationStore(file)))(body);
+    expect(await response.json()).toEqual({ error: 'Relay authorization already used for this recipient' });
+    expect(response.status).toBe(409);
+    expect(sent()).toEqual([recipients[0]]);
+  });
+});
+
+describe('MailSent indexer', () => {
+  const mail = (recipientEmail: string) => ({ contentCID: request.contentCID, senderEmail: request.senderEmail, recipientEmail });
+
+  it('stores logged mail under its addresses, keeps relayed records and reports how far it has indexed', async () => {
+    const chain = new FakeChain(5);
+    chain.record(mail(recipients[0]), 4);
+    const relayed = chain.record(mail(recipients[1]), 5);
+    const db = await openSqliteDatabase(':memory:');
+    const sqlite = new SqliteMailStore(db);
+    // saved by the relay route, with the CID the sender gave it
+    await sqlite.save({ ...mail(recipients[1]), mailId: relayed.toString(), cid: 'bafkrelayed', contentHash: request.contentCID, timestamp: 1 });
+    // the first save fails, so one indexing run has to be retried
+    let failures = 1;
+    const store: MailStore = {
+      save: async (record) => {
+        if (failures-- > 0) throw new Error('disk full');
+        await sqlite.save(record);
+      },
+      get: (mailId) => sqlite.get(mailId),
+      getInbox: (email) => sqlite.getInbox(email),
+      getSentbox: (email) => sqlite.getSentbox(email)
+    };
+    const errors: string[] = [];
+    const logger = new ConsoleLogger('silent');
+    logger.error = (message) => void errors.push(message);
+    const service = new EmailService(
+      {
+        rpcUrl: 'http://127.0.0.1:1',
+        registryAddress,
+        mailerAddress,
+        signerPrivateKey: Wallet.createRandom().privateKey,
+        storageProvider: { type: 'local', directory: tmpdir() },
+        eventStartBlock: 3,
+        port: 0
+      },
+      { provider: chain, store, logger }
+    );
+    const inbox = async (email: string, fromBlock: number) => {
+      const response = await fetch(`http://127.0.0.1:${service.port}/api/inbox/${email}?fromBlock=${fromBlock}`);
+      return (await response.json()) as { inbox: StoredMail[]; indexedTo: number };
+    };
+
+    await expect(service.start()).rejects.toThrow('disk full');
+    await service.start();
+    try {
+      expect(await inbox(recipients[0], 3)).toEqual({
+        inbox: [expect.objectContaining({ mailId: '1', senderEmail: request.senderEmail, blockNumber: 4 })],
+        indexedTo: 5
+      });
+      expect((await inbox(recipients[1], 3)).inbox).toEqual([expect.objectContaining({ mailId: '2', cid: 'bafkrelayed', timestamp: 1 })]);
+
+      failures = 1;
+      chain.record(mail(recipients[0]), 7);
+      await chain.mineUntil(() => errors.length > 0);
+      expect(errors).toEqual(['Indexing MailSent events failed']);
+      expect((await inbox(recipients[0], 6)).indexedTo).toBeLessThan(7);
+      await chain.mineUntil(async () => (await inbox(recipients[0], 6)).indexedTo === chain.head);
+      expect((await inbox(recipients[0], 6)).inbox.map((record) => record.mailId)).toEqual(['3']);
+    } finally {
+      await service.stop();
+      db.close();
+    }
+  });
+});
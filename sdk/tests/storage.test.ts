@@ -0,0 +1,328 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalStorageProvider } from '../src/storage/LocalStorageProvider.js';
+import { S3StorageProvider } from '../src/storage/S3StorageProvider.js';
+import { IPFSClient } from '../src/storage/IPFSClient.js';
+import type { RemotePinStatus } from '../src/storage/PinningService.js';
+import type { IPFSHTTPClient } from 'ipfs-http-client';
+import { createHash } from 'crypto';
+import * as dagPb from '@ipld/dag-pb';
+import { UnixFS } from 'ipfs-unixfs';
+import { CID } from 'multiformats/cid';
+import { create as createDigest } from 'multiformats/hashes/digest';
+import { VerifiedRetriever, type BlockSource } from '../src/storage/VerifiedRetriever.js';
+import { MAX_PACKAGE_BYTES, compressPayload, decompressPayload } from '../src/storage/compression.js';
+import { decodeMailPackage, encodeMailPackage } from '../src/storage/StorageProvider.js';
+import zlib from 'zlib';
+import { DiskPackageCache, MemoryPackageCache } from '../src/storage/PackageCache.js';
+import { CachedStorageProvider } from '../src/storage/CachedStorageProvider.js';
+import type { StorageProvider } from '../src/storage/StorageProvider.js';
+import pako from 'pako';
+import { bytes32ToCid, cidToBytes32 } from '../src/utils/bytes.js';
+import type { EncryptedMailPackage } from '../src/types/index.js';
+
+const pkg: EncryptedMailPackage = {
+  version: '2.0',
+  encryptedContent: { algorithm: 'aes-256-gcm', iv: '0x00', authTag: '0x00', ciphertext: '0x1234' },
+  encryptedKeys: [],
+  metadata: { version: '2.0', contentType: 'mail' }
+};
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) yield Buffer.from(part);
+}
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<string> {
+  const parts: Buffer[] = [];
+  for await (const chunk of source) parts.push(Buffer.from(chunk));
+  return Buffer.concat(parts).toString();
+}
+
+describe('package compression', () => {
+  const large = Buffer.from(JSON.stringify({ ...pkg, padding: 'x'.repeat(4096) }));
+
+  it('detects the encoding regardless of the reader configuration', () => {
+    expect(decodeMailPackage(encodeMailPackage(pkg, { codec: 'none' }))).toEqual(pkg);
+    // packages written before detection existed were bare gzip
+    expect(decodeMailPackage(pako.gzip(JSON.stringify(pkg)))).toEqual(pkg);
+
+    for (const codec of ['gzip', 'brotli'] as const) {
+      const compressed = compressPayload(large, { codec });
+      expect(compressed.length).toBeLessThan(large.length);
+      expect(decompressPayload(compressed)).toEqual(large);
+    }
+    expect(() => decompressPayload(Buffer.from('garbage'))).toThrow('Unrecognised package encoding');
+  });
+
+  it('compresses small payloads unless a threshold is set', () => {
+    const small = Buffer.from('{"small":true}');
+    expect(compressPayload(small).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+    expect(compressPayload(small, { codec: 'brotli', threshold: 1024 })).toEqual(small);
+    expect(compressPayload(large, { codec: 'gzip', threshold: large.length + 1 })).toEqual(large);
+  });
+
+  it('stops inflating at the package size limit', () => {
+    const zeros = Buffer.alloc(1024 * 1024);
+    for (const codec of ['gzip', 'brotli'] as const) {
+      expect(() => decompressPayload(compressPayload(zeros, { codec }), 1024)).toThrow('Package exceeds the 1024-byte limit');
+    }
+    // a few kilobytes on the wire, past the limit once inflated
+    const bomb = zlib.gzipSync(Buffer.alloc(MAX_PACKAGE_BYTES + 1, ' '));
+    expect(() => decodeMailPackage(bomb)).toThrow(`Package exceeds the ${MAX_PACKAGE_BYTES}-byte limit`);
+    expect(() => encodeMailPackage({ ...pkg, padding: 'x'.repeat(MAX_PACKAGE_BYTES) } as typeof pkg)).toThrow('byte limit');
+  });
+
+  it.skipIf(typeof zlib.zstdCompressSync !== 'function')('round-trips zstd', () => {
+    expect(decompressPayload(compressPayload(large, { codec: 'zstd' }))).toEqual(large);
+    expect(() => decompressPayload(compressPayload(large, { codec: 'zstd' }), 1024)).toThrow('Package exceeds the 1024-byte limit');
+  });
+});
+
+describe('LocalStorageProvider', () => {
+  it('stores packages and streams by content address', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'basemailer-storage-'));
+    try {
+      const storage = new LocalStorageProvider({ directory });
+      const cid = await storage.upload(pkg);
+      expect(await storage.upload(pkg)).toEqual(cid);
+      expect(await storage.retrieve(cid)).toEqual(pkg);
+      // the dag-pb CID rebuilt from chain data resolves to the same blob
+      expect(await storage.retrieve(bytes32ToCid(cidToBytes32(cid)))).toEqual(pkg);
+
+      const streamCid = await storage.uploadStream(chunks('hello ', 'world'));
+      expect(await collect(storage.retrieveStream(streamCid))).toEqual('hello world');
+
+      await storage.pin(cid);
+      await storage.unpin(cid);
+      await expect(storage.retrieve(cid)).rejects.toThrow('not found');
+      await expect(storage.pin(cid)).rejects.toThrow('not found');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('S3StorageProvider', () => {
+  it('signs path-style requests and round-trips objects', async () => {
+    const objects = new Map<string, Buffer>();
+    const requests: { method: string; url: string; authorization: string }[] = [];
+    const fakeFetch = (async (input: URL, init: RequestInit) => {
+      const url = input.toString();
+      const headers = init.headers as Record<string, string>;
+      requests.push({ method: init.method!, url, authorization: headers.authorization });
+      if (init.method === 'PUT') {
+        objects.set(url, Buffer.from(init.body as Uint8Array));
+        return new Response(null, { status: 200 });
+      }
+      const object = objects.get(url);
+      if (init.method === 'DELETE') {
+        objects.delete(url);
+        return new Response(null, { status: 204 });
+      }
+      if (!object) return new Response(null, { status: 404 });
+      return new Response(init.method === 'HEAD' ? null : new Uint8Array(object), { status: 200 });
+    }) as typeof fetch;
+
+    const storage = new S3StorageProvider({
+      endpoint: 'https://s3.example.test',
+      bucket: 'mail',
+      prefix: 'packages/',
+      region: 'eu-west-1',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'secret',
+      fetch: fakeFetch
+    });
+
+    const cid = await storage.upload(pkg);
+    expect(await storage.retrieve(cid)).toEqual(pkg);
+    await storage.pin(cid);
+
+    const digest = cidToBytes32(cid).slice(2);
+    expect(requests[0].url).toEqual(`https://s3.example.test/mail/packages/${digest}`);
+    expect(requests[0].authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+
+    await storage.unpin(cid);
+    await expect(storage.retrieve(cid)).rejects.toThrow('not found');
+  });
+});
+
+describe('IPFSClient remote pinning', () => {
+  const cid = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+
+  function pinningApi(token: string) {
+    const pins = new Map<string, RemotePinStatus>();
+    let polls = 0;
+    const api = (async (input: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      if (headers.authorization !== `Bearer ${token}`) return new Response('unauthorized', { status: 401 });
+      const url = new URL(input);
+      if (init.method === 'POST') {
+        const status: RemotePinStatus = {
+          requestid: `req-${pins.size + 1}`,
+          status: 'queued',
+          created: new Date().toISOString(),
+          pin: JSON.parse(init.body as string),
+          delegates: []
+        };
+        pins.set(status.requestid, status);
+        return Response.json(status, { status: 202 });
+      }
+      if (init.method === 'DELETE') {
+        pins.delete(url.pathname.split('/').pop()!);
+        return new Response(null, { status: 202 });
+      }
+      if (url.pathname === '/pins') {
+        const results = [...pins.values()].filter((pin) => pin.pin.cid === url.searchParams.get('cid'));
+        return Response.json({ count: results.length, results });
+      }
+      const pin = pins.get(url.pathname.split('/').pop()!)!;
+      polls += 1;
+      if (polls >= 2) pin.status = 'pinned';
+      return Response.json(pin);
+    }) as typeof fetch;
+    return { api, pins };
+  }
+
+  it('pins on every service, tolerates failures and tracks status', async () => {
+    const local = new Set<string>();
+    const client = {
+      pin: {
+        add: async (value: string) => local.add(value),
+        rm: async (value: string) => local.delete(value)
+      }
+    } as unknown as IPFSHTTPClient;
+    const good = pinningApi('good-token');
+    const ipfs = new IPFSClient({
+      client,
+      pinningServices: [
+        { name: 'good', endpoint: 'https://pins.example.test', accessToken: 'good-token', fetch: good.api },
+        { name: 'bad', endpoint: 'https://pins.example.test', accessToken: 'wrong', fetch: good.api }
+      ],
+      waitForRemotePins: { timeoutMs: 1_000, intervalMs: 5 }
+    });
+
+    const reports = await ipfs.pin(cid);
+    expect([...local]).toEqual([cid]);
+    expect(reports.find((report) => report.provider === 'ipfs')?.status).toEqual('pinned');
+    expect(reports.find((report) => report.provider === 'good')).toMatchObject({ status: 'pinned', requestId: 'req-1' });
+    expect(reports.find((report) => report.provider === 'bad')).toMatchObject({ status: 'failed' });
+
+    // pinning again reuses the existing request
+    await ipfs.pin(cid);
+    expect(good.pins.size).toEqual(1);
+    expect((await ipfs.pinStatus(cid))[0]).toMatchObject({ provider: 'good', status: 'pinned' });
+
+    await expect(ipfs.unpin(cid)).rejects.toThrow('bad');
+    expect(local.size).toEqual(0);
+    expect(good.pins.size).toEqual(0);
+  });
+
+  it('fails only when no target accepts the pin', async () => {
+    const ipfs = new IPFSClient({
+      client: {} as IPFSHTTPClient,
+      pin: false,
+      pinningServices: [{ endpoint: 'https://pins.example.test', accessToken: 'wrong', fetch: pinningApi('token').api }]
+    });
+    await expect(ipfs.pin(cid)).rejects.toThrow('Failed to pin');
+  });
+});
+
+describe('VerifiedRetriever', () => {
+  const blocks = new Map<string, Uint8Array>();
+
+  function putBlock(bytes: Uint8Array): CID {
+    const cid = CID.createV1(dagPb.code, createDigest(0x12, createHash('sha256').update(bytes).digest()));
+    blocks.set(cid.toString(), bytes);
+    return cid;
+  }
+
+  // a two-leaf UnixFS file, laid out the way kubo writes it with rawLeaves disabled
+  const leaves = ['hello ', 'gateways'].map((text) =>
+    putBlock(dagPb.encode({ Data: new UnixFS({ type: 'file', data: Buffer.from(text) }).marshal(), Links: [] }))
+  );
+  // dag-pb bundles a newer multiformats, hence the cast on Hash
+  const root = putBlock(
+    dagPb.encode({
+      Data: new UnixFS({ type: 'file', blockSizes: [6, 8] }).marshal(),
+      Links: leaves.map((cid, index) => ({ Hash: cid as unknown as dagPb.PBLink['Hash'], Name: '', Tsize: index === 0 ? 6 : 8 }))
+    })
+  ).toString();
+
+  const hanging: BlockSource = {
+    name: 'down-node',
+    getBlock: (_cid, signal) => new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))))
+  };
+  const malicious: BlockSource = { name: 'evil', getBlock: async () => Buffer.from('tampered') };
+  const honest: BlockSource = { name: 'honest', getBlock: async (cid) => blocks.get(cid)! };
+
+  it('hedges past slow sources and rejects blocks that do not match their CID', async () => {
+    const retriever = new VerifiedRetriever({ sources: [hanging, malicious, honest], hedgeDelayMs: 10, timeoutMs: 1_000 });
+    expect(await collect(retriever.cat(root))).toEqual('hello gateways');
+  });
+
+  it('fails when no source returns verifiable content', async () => {
+    const retriever = new VerifiedRetriever({ sources: [hanging, malicious], hedgeDelayMs: 10, timeoutMs: 50 });
+    await expect(collect(retriever.cat(root))).rejects.toThrow(/evil: block does not match its CID; down-node: timed out/);
+  });
+});
+
+describe('package cache', () => {
+  const cids = ['bafkreia', 'bafkreib', 'bafkreic'];
+  const entrySize = Buffer.byteLength(JSON.stringify(pkg));
+
+  it('evicts the least recently used packages past the size limit', async () => {
+    const cache = new MemoryPackageCache({ maxBytes: entrySize * 2 });
+    await cache.set(cids[0], pkg);
+    await cache.set(cids[1], pkg);
+    await cache.get(cids[0]);
+    await cache.set(cids[2], pkg);
+    expect(await cache.get(cids[0])).toEqual(pkg);
+    expect(await cache.get(cids[1])).toBeUndefined();
+    expect(await cache.get(cids[2])).toEqual(pkg);
+  });
+
+  it('keeps disk entries across restarts within the size limit', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'basemailer-cache-'));
+    try {
+      const first = new DiskPackageCache({ directory, maxBytes: entrySize * 2 });
+      for (const cid of cids) await first.set(cid, pkg);
+      expect(await first.get(cids[0])).toBeUndefined();
+      expect(await first.get('../escape')).toBeUndefined();
+
+      const reopened = new DiskPackageCache({ directory, maxBytes: entrySize * 2 });
+      expect(await reopened.get(cids[1])).toEqual(pkg);
+      expect(await reopened.get(cids[2])).toEqual(pkg);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('reads through, shares concurrent fetches and back-fills earlier tiers', async () => {
+    let fetches = 0;
+    const backing = {
+      retrieve: async () => {
+        fetches += 1;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return pkg;
+      }
+    } as unknown as StorageProvider;
+    const memory = new MemoryPackageCache();
+    const second = new MemoryPackageCache();
+    const storage = new CachedStorageProvider(backing, [memory, second]);
+
+    const results = await Promise.all([storage.retrieve(cids[0]), storage.retrieve(cids[0])]);
+    expect(results).toEqual([pkg, pkg]);
+    expect(fetches).toEqual(1);
+    expect(await storage.retrieve(cids[0])).toEqual(pkg);
+    expect(fetches).toEqual(1);
+
+    await second.set(cids[1], pkg);
+    await storage.retrieve(cids[1]);
+    expect(await memory.get(cids[1])).toEqual(pkg);
+    expect(fetches).toEqual(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JsonlCidStore, JsonlMailStore, JsonlRelayAuthorizationStore } from '../src/service/JsonlStore.js';
+import {
+  SqliteCidStore,
+  SqliteMailStore,
+  SqliteRelayAuthorizationStore,
+  openSqliteDatabase
+} from '../src/service/SqliteStore.js';
+import type { StoredMail } from '../src/service/types.js';
+
+const signature = `0x${'5a'.repeat(65)}`;
+const cid = 'bafybeie5nqv6kd3qnfjupgvz34woh3oksc3iau6abmyajn7qvtf6d2ho34';
+const mail: StoredMail = {
+  mailId: '7',
+  cid,
+  contentHash: `0x${'ab'.repeat(32)}`,
+  senderEmail: 'alice.base.eth@basemailer.com',
+  recipientEmail: 'bob.base.eth@basemailer.com',
+  timestamp: 1_700_000_000,
+  blockNumber: 42,
+  txHash: `0x${'cd'.repeat(32)}`
+};
+
+async function withTempDir(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'basemailer-stores-'));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+describe('JSON-lines stores', () => {
+  it('replay mails and CID mappings after a restart', async () => {
+    await withTempDir(async (directory) => {
+      const mails = new JsonlMailStore(path.join(directory, 'mails.jsonl'));
+      const cids = new JsonlCidStore(path.join(directory, 'cids.jsonl'));
+      await mails.save(mail);
+      await mails.save({ ...mail, recipientEmail: 'carol.base.eth@basemailer.com' });
+      await cids.set(mail.contentHash, cid);
+
+      const reopened = new JsonlMailStore(path.join(directory, 'mails.jsonl'));
+      expect(await reopened.get('7')).toMatchObject({ recipientEmail: 'carol.base.eth@basemailer.com' });
+      expect(await reopened.getInbox('bob.base.eth@basemailer.com')).toEqual([]);
+      expect(await reopened.getSentbox(mail.senderEmail)).toHaveLength(1);
+      expect(await new JsonlCidStore(path.join(directory, 'cids.jsonl')).get(mail.contentHash)).toEqual(mail.cid);
+    });
+  });
+
+  it('remember used relay authorizations after a restart', async () => {
+    await withTempDir(async (directory) => {
+      const file = path.join(directory, 'authorizations.jsonl');
+      const authorizations = new JsonlRelayAuthorizationStore(file);
+      const claims = [authorizations.claim(signature, mail.recipientEmail), authorizations.claim(signature, mail.recipientEmail)];
+      expect(await Promise.all(claims)).toEqual([true, false]);
+      expect(await authorizations.claim(signature, 'carol.base.eth@basemailer.com')).toBe(true);
+
+      const reopened = new JsonlRelayAuthorizationStore(file);
+      expect(await reopened.claim(signature.toUpperCase().replace('0X', '0x'), mail.recipientEmail)).toBe(false);
+      expect(await reopened.claim(signature, 'carol.base.eth@basemailer.com')).toBe(false);
+    });
+  });
+});
+
+// node:sqlite on Node 22.5+, better-sqlite3 (a dev dependency) before that
+describe('SQLite stores', () => {
+  it('persist mails and CID mappings across connections', async () => {
+    await withTempDir(async (directory) => {
+      const file = path.join(directory, 'basemailer.sqlite');
+      const db = await openSqliteDatabase(file);
+      await new SqliteMailStore(db).save(mail);
+      // mail seen only on chain, with no known CID
+      await new SqliteMailStore(db).save({ ...mail, mailId: '8', cid: undefined, senderEmail: 'carol.base.eth@basemailer.com' });
+      await new SqliteCidStore(db).set(mail.contentHash, cid);
+      db.close();
+
+      const reopened = await openSqliteDatabase(file);
+      const store = new SqliteMailStore(reopened);
+      expect(await store.get('7')).toEqual(mail);
+      expect(await store.getSentbox(mail.senderEmail)).toEqual([mail]);
+      expect(await store.get('8')).not.toHaveProperty('cid');
+      expect(await new SqliteCidStore(reopened).get(mail.contentHash)).toEqual(mail.cid);
+      reopened.close();
+    });
+  });
+
+  it('remember used relay authorizations across connections', async () => {
+    await withTempDir(async (directory) => {
+      const file = path.join(directory, 'basemailer.sqlite');
+      const db = await openSqliteDatabase(file);
+      const authorizations = new SqliteRelayAuthorizationStore(db);
+      expect(await authorizations.claim(signature, mail.recipientEmail)).toBe(true);
+      expect(await authorizations.claim(signature, mail.recipientEmail)).toBe(false);
+      db.close();
+
+      const reopened = await openSqliteDatabase(file);
+      expect(await new SqliteRelayAuthorizationStore(reopened).claim(signature, mail.recipientEmail)).toBe(false);
+      expect(await new SqliteRelayAuthorizationStore(reopened).claim(signature, 'carol.base.eth@basemailer.com')).toBe(true);
+      reopened.close();
+    });
+  });
+
+  it('refuse mail whose emails are not strings', async () => {
+    const db = await openSqliteDatabase(':memory:');
+    const store = new SqliteMailStore(db);
+    const hashed = { ...mail, recipientEmail: { hash: `0x${'ef'.repeat(32)}` } } as unknown as StoredMail;
+    await expect(store.save(hashed)).rejects.toThrow('Mail 7 recipientEmail must be a string, got object');
+    expect(await store.get('7')).toBeUndefined();
+    db.close();
+  });
+});
@@ -3,7 +3,9 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
-    cli: 'src/cli.ts'
+    cli: 'src/cli.ts',
+    // loaded by ProvingPool through new URL('./proving-worker.js', import.meta.url)
+    'proving-worker': 'src/zkproof/proving-worker.ts'
   },
   format: ['esm'],
   dts: {